@@ -0,0 +1,33 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+// Доступ к админскому API по заголовку Authorization: Bearer <ADMIN_TOKEN>
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  #token?: string;
+
+  constructor(configService: ConfigService) {
+    this.#token = configService.get<string>('ADMIN_TOKEN');
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.#token) {
+      throw new NotFoundException(
+        'Админский API выключен: не задан ADMIN_TOKEN',
+      );
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    if (request.headers.authorization !== `Bearer ${this.#token}`) {
+      throw new UnauthorizedException('Неверный токен администратора');
+    }
+    return true;
+  }
+}
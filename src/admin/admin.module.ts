@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HistoryController } from './history.controller';
+import { VkModule } from '../vk/vk.module';
+import { HistoryModule } from '../history/history.module';
+import { QueueModule } from '../queue/queue.module';
+
+// Админский API, которому нужен сам бот: история запросов и повторная отправка
+@Module({
+  imports: [VkModule, HistoryModule, QueueModule],
+  controllers: [HistoryController],
+})
+export class AdminModule {}
@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { HistoryController } from './history.controller';
+import { HistoryService } from '../history/history.service';
+import { VkService } from '../vk/vk.service';
+import { QueueService } from '../queue/queue.service';
+
+describe('HistoryController', () => {
+  let app: INestApplication<App>;
+  let history: Record<string, jest.Mock>;
+  let vkService: Record<string, jest.Mock>;
+  let queue: { isProcessing: boolean };
+
+  const records = [
+    {
+      requestId: '-1_6',
+      nickname: 'Trinity',
+      kind: 'bundle',
+      status: 'issued',
+    },
+    { requestId: '-1_5', nickname: 'Neo', kind: 'bundle', status: 'issued' },
+    {
+      requestId: 'message_7_3',
+      nickname: 'Neo',
+      kind: 'preview',
+      status: 'issued',
+    },
+    {
+      requestId: '-1_4',
+      nickname: 'Smith',
+      kind: 'bundle',
+      status: 'rejected',
+    },
+    { requestId: '-1_3', nickname: 'Cypher', kind: 'bundle', status: 'held' },
+  ];
+
+  beforeEach(async () => {
+    history = {
+      find: jest.fn().mockResolvedValue(records),
+      findLast: jest.fn((requestId: string) =>
+        Promise.resolve(
+          records.find((record) => record.requestId === requestId),
+        ),
+      ),
+      toCsv: jest.fn().mockReturnValue('requestId\r\n-1_6\r\n'),
+    };
+    vkService = {
+      reissue: jest.fn().mockResolvedValue('regenerate_-1_5_1'),
+    };
+    queue = { isProcessing: true };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HistoryController],
+      providers: [
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ ADMIN_TOKEN: 'token' }),
+        },
+        { provide: HistoryService, useValue: history },
+        { provide: VkService, useValue: vkService },
+        { provide: QueueService, useValue: queue },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should require the admin token', async () => {
+    await request(app.getHttpServer()).get('/admin/history').expect(401);
+    await request(app.getHttpServer())
+      .post('/admin/history/-1_5/resend')
+      .expect(401);
+    expect(vkService.reissue).not.toHaveBeenCalled();
+  });
+
+  it('should page and filter the history', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/admin/history?search=neo&userId=7&status=issued&limit=1&offset=1')
+      .set('Authorization', 'Bearer token')
+      .expect(200);
+
+    expect(history.find).toHaveBeenCalledWith({
+      search: 'neo',
+      campaignId: undefined,
+      userId: 7,
+      status: 'issued',
+    });
+    expect(response.body).toEqual({ total: 5, items: [records[1]] });
+
+    await request(app.getHttpServer())
+      .get('/admin/history?status=lost')
+      .set('Authorization', 'Bearer token')
+      .expect(400);
+  });
+
+  it('should export CSV', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/admin/history/export.csv?campaignId=winter')
+      .set('Authorization', 'Bearer token')
+      .expect(200)
+      .expect('Content-Type', /^text\/csv/)
+      .expect('Content-Disposition', 'attachment; filename="history.csv"');
+
+    expect(response.text).toBe('requestId\r\n-1_6\r\n');
+    expect(history.find).toHaveBeenCalledWith(
+      expect.objectContaining({ campaignId: 'winter' }),
+    );
+  });
+
+  it('should regenerate and resend bundles from the history', async () => {
+    await request(app.getHttpServer())
+      .post('/admin/history/-1_5/regenerate')
+      .set('Authorization', 'Bearer token')
+      .expect(202)
+      .expect({ jobId: 'regenerate_-1_5_1' });
+    expect(vkService.reissue).toHaveBeenCalledWith(records[1], true);
+
+    await request(app.getHttpServer())
+      .post('/admin/history/-1_6/resend')
+      .set('Authorization', 'Bearer token')
+      .expect(202);
+    expect(vkService.reissue).toHaveBeenLastCalledWith(records[0], false);
+
+    await request(app.getHttpServer())
+      .post('/admin/history/-1_99/resend')
+      .set('Authorization', 'Bearer token')
+      .expect(404);
+    await request(app.getHttpServer())
+      .post('/admin/history/message_7_3/resend')
+      .set('Authorization', 'Bearer token')
+      .expect(400);
+  });
+
+  it('should not accept a bundle the queue will never process', async () => {
+    queue.isProcessing = false;
+
+    for (const action of ['resend', 'regenerate']) {
+      const response = await request(app.getHttpServer())
+        .post(`/admin/history/-1_5/${action}`)
+        .set('Authorization', 'Bearer token')
+        .expect(503);
+      expect(response.body.message).toContain('VK выключен');
+    }
+    expect(vkService.reissue).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['rejected', '-1_4'],
+    ['held', '-1_3'],
+  ])(
+    'should not resend a %s request past moderation and limits',
+    async (status, requestId) => {
+      for (const action of ['resend', 'regenerate']) {
+        const response = await request(app.getHttpServer())
+          .post(`/admin/history/${requestId}/${action}`)
+          .set('Authorization', 'Bearer token')
+          .expect(409);
+        expect(response.body.message).toContain(status);
+      }
+      expect(vkService.reissue).not.toHaveBeenCalled();
+    },
+  );
+});
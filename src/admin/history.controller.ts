@@ -0,0 +1,153 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminTokenGuard } from './admin-token.guard';
+import { HistoryQuery, HistoryService } from '../history/history.service';
+import { VkService } from '../vk/vk.service';
+import { QueueService } from '../queue/queue.service';
+import { HistoryRecord, HistoryStatus } from '../types/history.type';
+
+const STATUSES: HistoryStatus[] = [
+  'issued',
+  'rejected',
+  'held',
+  'skipped',
+  'failed',
+];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// Параметры строки запроса приходят строками
+interface HistoryParams {
+  search?: string;
+  campaignId?: string;
+  userId?: string;
+  status?: string;
+  limit?: string;
+  offset?: string;
+}
+
+interface HistoryPage {
+  total: number;
+  items: HistoryRecord[];
+}
+
+@Controller('admin/history')
+@UseGuards(AdminTokenGuard)
+export class HistoryController {
+  constructor(
+    private readonly historyService: HistoryService,
+    private readonly vkService: VkService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  @Get()
+  async list(@Query() params: HistoryParams): Promise<HistoryPage> {
+    const records = await this.historyService.find(this.#parseQuery(params));
+    const limit = Math.min(
+      this.#parseNumber(params.limit, 'limit') ?? DEFAULT_LIMIT,
+      MAX_LIMIT,
+    );
+    const offset = this.#parseNumber(params.offset, 'offset') ?? 0;
+    return {
+      total: records.length,
+      items: records.slice(offset, offset + limit),
+    };
+  }
+
+  @Get('export.csv')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="history.csv"')
+  async export(@Query() params: HistoryParams): Promise<string> {
+    const records = await this.historyService.find(this.#parseQuery(params));
+    return this.historyService.toCsv(records);
+  }
+
+  // Тот же бандл туда же, куда он ушел; из кэша, если он там есть
+  @Post(':requestId/resend')
+  @HttpCode(202)
+  resend(@Param('requestId') requestId: string): Promise<{ jobId: string }> {
+    return this.#reissue(requestId, false);
+  }
+
+  // Рисует бандл заново и заменяет прежние ответы в комментариях
+  @Post(':requestId/regenerate')
+  @HttpCode(202)
+  regenerate(
+    @Param('requestId') requestId: string,
+  ): Promise<{ jobId: string }> {
+    return this.#reissue(requestId, true);
+  }
+
+  #reissue = async (
+    requestId: string,
+    fresh: boolean,
+  ): Promise<{ jobId: string }> => {
+    const record = await this.historyService.findLast(requestId);
+    if (!record) {
+      throw new NotFoundException(`Запрос ${requestId} не найден в истории`);
+    }
+    if (record.kind === 'preview') {
+      throw new BadRequestException(
+        'Превью нельзя отправить повторно как бандл',
+      );
+    }
+    // Повтор не проходит модерацию и лимиты заново, поэтому только для уже выданных бандлов
+    if (record.status !== 'issued') {
+      throw new ConflictException(
+        `Запрос ${requestId} в статусе ${record.status}, повторно отправляются только выданные бандлы`,
+      );
+    }
+
+    // Иначе задача молча ляжет в очередь, которую никто не разбирает
+    if (!this.queueService.isProcessing) {
+      throw new ServiceUnavailableException(
+        'Очередь не обрабатывается: VK выключен, бандл не будет отправлен',
+      );
+    }
+
+    const jobId = await this.vkService.reissue(record, fresh);
+    if (!jobId) {
+      throw new NotFoundException(
+        `Акция ${record.campaignId} больше не настроена`,
+      );
+    }
+    return { jobId };
+  };
+
+  #parseQuery = (params: HistoryParams): HistoryQuery => {
+    if (params.status && !STATUSES.includes(params.status as HistoryStatus)) {
+      throw new BadRequestException(
+        `status должен быть одним из ${STATUSES.join(', ')}`,
+      );
+    }
+    return {
+      search: params.search,
+      campaignId: params.campaignId,
+      userId: this.#parseNumber(params.userId, 'userId'),
+      status: params.status as HistoryStatus | undefined,
+    };
+  };
+
+  #parseNumber = (value: string | undefined, name: string) => {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      throw new BadRequestException(`${name} должен быть целым числом`);
+    }
+    return number;
+  };
+}
@@ -1,7 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { AppController } from './app.controller';
+import { AppService } from './app.service';
 import { VkModule } from './vk/vk.module';
 import { ImageProcessingModule } from './image-processing/image-processing.module';
+import { PreviewModule } from './preview/preview.module';
+import { MonitoringModule } from './monitoring/monitoring.module';
+import { AdminModule } from './admin/admin.module';
 
 @Module({
   imports: [
@@ -10,6 +15,11 @@ import { ImageProcessingModule } from './image-processing/image-processing.modul
     }),
     VkModule,
     ImageProcessingModule,
+    PreviewModule,
+    MonitoringModule,
+    AdminModule,
   ],
+  controllers: [AppController],
+  providers: [AppService],
 })
 export class AppModule {}
@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import * as archiver from 'archiver';
+import { BundleFile } from '../types/bundle.type';
+
+@Injectable()
+export class ArchiveService {
+  async createZipArchive(
+    files: BundleFile[],
+    nickname: string,
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const archive = archiver('zip', {
+        zlib: { level: 9 },
+      });
+
+      const chunks: Buffer[] = [];
+
+      archive.on('data', (chunk) => chunks.push(chunk));
+      archive.on('end', () => resolve(Buffer.concat(chunks)));
+      archive.on('error', (err) => reject(new Error(err.message)));
+
+      // Добавляем файлы в архив. PNG, JPEG и WebP уже сжаты, повторное сжатие только тратит время
+      for (const file of files) {
+        archive.append(file.data, { name: file.fileName, store: true });
+      }
+      archive.append(this.#readme(files, nickname), { name: 'README.txt' });
+
+      archive.finalize();
+    });
+  }
+
+  // CRLF, чтобы README читался и в старом Блокноте
+  #readme = (files: BundleFile[], nickname: string): string => {
+    return [
+      `Бандл для ${nickname}`,
+      '',
+      'Какой файл куда ставить:',
+      ...files.map((file) => `${file.fileName} - ${file.description}`),
+      '',
+    ].join('\r\n');
+  };
+}
@@ -0,0 +1,43 @@
+import { Campaign } from '../types/campaign.type';
+
+/**
+ * Акция для тестов рендера: шаблоны и шрифты из src/assets, пустые ответы
+ * и без ограничений на ник. Нужные поля переопределяются аргументом.
+ */
+export const createCampaign = (
+  overrides: Partial<Campaign> = {},
+): Campaign => ({
+  id: 'test',
+  postId: 1,
+  layouts: 'default.json',
+  font: 'MULLEREXTRABOLD.TTF',
+  fallbackFonts: ['Muller-Bold.ttf'],
+  textColor: '#987c4b',
+  messages: {
+    coversReady: '',
+    avatarReady: '',
+    bundleReady: '',
+    sentToMessages: '',
+    error: '',
+    unsupportedCharacters: '',
+    invalidNickname: '',
+    nicknameNotFound: '',
+    moderationPending: '',
+    moderationRejected: '',
+    notEligible: '',
+  },
+  nickname: {
+    patterns: [],
+    minLength: 1,
+    maxLength: 32,
+    alphabets: [],
+    bannedWords: [],
+    letterCase: 'keep',
+  },
+  moderation: { blocklist: [], holdMixedScripts: false, holdLinks: false },
+  eligibility: { member: false, like: false, repost: false },
+  delivery: 'comment',
+  outputs: [],
+  archiveName: 'bundle_{nickname}.zip',
+  ...overrides,
+});
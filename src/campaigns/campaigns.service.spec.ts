@@ -0,0 +1,226 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CampaignsService } from './campaigns.service';
+import { NicknameService } from '../nickname/nickname.service';
+
+describe('CampaignsService', () => {
+  let service: CampaignsService;
+  let tmpDir: string;
+
+  const createService = async (config: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CampaignsService,
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+
+    const campaigns = module.get<CampaignsService>(CampaignsService);
+    await campaigns.onModuleInit();
+    return campaigns;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'campaigns-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should fall back to TARGET_POST_ID without a campaigns file', async () => {
+    service = await createService({
+      CAMPAIGNS_PATH: path.join(tmpDir, 'missing.json'),
+      TARGET_POST_ID: '42',
+    });
+
+    expect(service.findByPost(-1, 42)).toMatchObject({
+      id: 'default',
+      layouts: 'default.json',
+      textColor: '#987c4b',
+    });
+    expect(service.findByPost(-1, 43)).toBeUndefined();
+  });
+
+  it('should route posts to campaigns and fill defaults', async () => {
+    const campaignsPath = path.join(tmpDir, 'campaigns.json');
+    const layoutsPath = path.join(tmpDir, 'winter.json');
+    await fs.copyFile('src/assets/layouts/default.json', layoutsPath);
+    await fs.writeFile(
+      campaignsPath,
+      JSON.stringify([
+        { id: 'spring', ownerId: -1, postId: 10 },
+        {
+          id: 'winter',
+          ownerId: -1,
+          postId: 11,
+          textColor: '#ffffff',
+          layouts: layoutsPath,
+          delivery: 'message',
+          eligibility: { member: true },
+        },
+      ]),
+    );
+    service = await createService({ CAMPAIGNS_PATH: campaignsPath });
+
+    expect(service.findByPost(-1, 10)?.id).toBe('spring');
+    expect(service.findByPost(-2, 10)).toBeUndefined();
+    expect(service.findByPost(-1, 11)).toMatchObject({
+      textColor: '#ffffff',
+      layouts: layoutsPath,
+      font: 'MULLEREXTRABOLD.TTF',
+    });
+    expect(service.findByPost(-1, 10)?.delivery).toBe('comment');
+    expect(service.findByPost(-1, 10)?.eligibility).toEqual({
+      member: false,
+      like: false,
+      repost: false,
+    });
+    expect(service.findByPost(-1, 11)?.eligibility).toEqual({
+      member: true,
+      like: false,
+      repost: false,
+    });
+    expect(service.findForMessages()?.id).toBe('winter');
+  });
+
+  it('should merge nickname rules and reject broken patterns', async () => {
+    const campaignsPath = path.join(tmpDir, 'campaigns.json');
+    await fs.writeFile(
+      campaignsPath,
+      JSON.stringify([
+        { id: 'spring', postId: 10, nickname: { maxLength: 12 } },
+      ]),
+    );
+    service = await createService({ CAMPAIGNS_PATH: campaignsPath });
+
+    expect(service.getById('spring')?.nickname).toMatchObject({
+      maxLength: 12,
+      minLength: 1,
+      letterCase: 'keep',
+    });
+
+    await fs.writeFile(
+      campaignsPath,
+      JSON.stringify([
+        { id: 'spring', postId: 10, nickname: { patterns: ['nick: (.+'] } },
+      ]),
+    );
+    await expect(
+      createService({ CAMPAIGNS_PATH: campaignsPath }),
+    ).rejects.toThrow('Некорректный шаблон ника в акции spring');
+  });
+
+  it('should resolve output presets and overrides', async () => {
+    const campaignsPath = path.join(tmpDir, 'campaigns.json');
+    await fs.writeFile(
+      campaignsPath,
+      JSON.stringify([
+        {
+          id: 'spring',
+          postId: 10,
+          outputs: [
+            'avatar',
+            'telegram_avatar',
+            { name: 'story', background: '#102030' },
+            { name: 'avatar_webp', layout: 'avatar', format: 'webp' },
+          ],
+        },
+      ]),
+    );
+    service = await createService({ CAMPAIGNS_PATH: campaignsPath });
+
+    expect(service.getById('spring')?.outputs).toEqual([
+      { name: 'avatar', layout: 'avatar', format: 'png' },
+      expect.objectContaining({
+        name: 'telegram_avatar',
+        layout: 'avatar',
+        width: 640,
+        height: 640,
+      }),
+      expect.objectContaining({
+        name: 'story',
+        width: 1080,
+        height: 1920,
+        background: '#102030',
+      }),
+      { name: 'avatar_webp', layout: 'avatar', format: 'webp' },
+    ]);
+
+    await fs.writeFile(
+      campaignsPath,
+      JSON.stringify([
+        { id: 'spring', postId: 10, outputs: [{ name: 'x', format: 'gif' }] },
+      ]),
+    );
+    await expect(
+      createService({ CAMPAIGNS_PATH: campaignsPath }),
+    ).rejects.toThrow('Некорректный файл x в акции spring');
+  });
+
+  it('should check the layouts of every campaign when loading', async () => {
+    const campaignsPath = path.join(tmpDir, 'campaigns.json');
+    const layoutsPath = path.join(tmpDir, 'winter.json');
+    const write = (campaign: object) =>
+      fs.writeFile(
+        campaignsPath,
+        JSON.stringify([{ id: 'winter', postId: 10, ...campaign }]),
+      );
+
+    await write({ layouts: 'missing.json' });
+    await expect(
+      createService({ CAMPAIGNS_PATH: campaignsPath }),
+    ).rejects.toThrow('Некорректные шаблоны в акции winter');
+
+    const layouts = JSON.parse(
+      await fs.readFile('src/assets/layouts/default.json', 'utf-8'),
+    );
+    await fs.writeFile(
+      layoutsPath,
+      JSON.stringify([{ ...layouts[0], anchor: 'left' }]),
+    );
+    await write({ layouts: layoutsPath });
+    await expect(
+      createService({ CAMPAIGNS_PATH: campaignsPath }),
+    ).rejects.toThrow('anchor должен быть одним из start, middle, end');
+
+    await write({ outputs: ['banner'] });
+    await expect(
+      createService({ CAMPAIGNS_PATH: campaignsPath }),
+    ).rejects.toThrow(
+      'Некорректный файл banner в акции winter: шаблона banner нет в default.json',
+    );
+  });
+
+  it('should not put anything that parses as a nickname into default replies', async () => {
+    service = await createService({ TARGET_POST_ID: '1' });
+    const campaign = service.getAll()[0];
+    const nicknameService = new NicknameService();
+
+    for (const message of Object.values(campaign.messages)) {
+      const text = service.formatMessage(message, {
+        nickname: 'Neo',
+        characters: '😀',
+        reason: 'длина ника должна быть не больше 5',
+        missing: 'подписаться на сообщество',
+      });
+      expect([text, nicknameService.extract(text, campaign.nickname)]).toEqual([
+        text,
+        null,
+      ]);
+    }
+  });
+
+  it('should fill message placeholders', async () => {
+    service = await createService({ TARGET_POST_ID: '1' });
+
+    expect(
+      service.formatMessage('Бандл {nickname} {unknown}', { nickname: 'Neo' }),
+    ).toBe('Бандл Neo {unknown}');
+  });
+});
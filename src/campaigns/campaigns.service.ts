@@ -0,0 +1,282 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { BundleOutput, Campaign, OutputFormat } from '../types/campaign.type';
+import { compileNicknamePattern } from '../nickname/nickname.service';
+import { loadLayouts } from '../image-processing/template-layouts';
+import { OUTPUT_PRESETS } from './output-presets';
+
+// Строка - имя готового размера или шаблона, объект - свои настройки файла
+type OutputDefinition = string | (Partial<BundleOutput> & { name: string });
+
+type CampaignDefinition = Partial<Omit<Campaign, 'outputs'>> &
+  Pick<Campaign, 'id' | 'postId'> & { outputs?: OutputDefinition[] };
+
+const OUTPUT_FORMATS: OutputFormat[] = ['png', 'webp', 'jpeg'];
+
+// Оформление первой акции; используется как значения по умолчанию для остальных.
+// Ответы бота видны под постом, поэтому в текстах нет оборотов из шаблонов ника
+const DEFAULT_CAMPAIGN: Omit<Campaign, 'id' | 'postId'> = {
+  layouts: 'default.json',
+  font: 'MULLEREXTRABOLD.TTF',
+  // В этом начертании есть украинская и сербская кириллица, которой нет в основном
+  fallbackFonts: ['Muller-Bold.ttf'],
+  textColor: '#987c4b',
+  messages: {
+    coversReady: 'Ваш бандл готов! Обложки для {nickname}:',
+    avatarReady: 'Аватар и архив со всеми файлами:',
+    bundleReady:
+      'Ваш бандл для {nickname} готов: обложки, аватар и архив со всеми файлами.',
+    sentToMessages: 'Отправили бандл в личные сообщения сообщества',
+    error: 'Произошла ошибка при создании бандла',
+    unsupportedCharacters:
+      'Не получится нарисовать символы {characters}: их нет в шрифте бандла. Попробуйте обойтись латиницей или кириллицей.',
+    invalidNickname:
+      'Не получится сделать бандл для «{nickname}»: {reason}. Исправьте и напишите еще раз.',
+    nicknameNotFound:
+      'Не нашли никнейм в сообщении. Напишите его после команды, например: /bundle Neo',
+    moderationPending:
+      '«{nickname}» отправлен на проверку модератору. Бандл придет, как только его одобрят.',
+    moderationRejected:
+      'Модератор не одобрил «{nickname}», поэтому бандл не будет создан.',
+    notEligible:
+      'Чтобы получить бандл для {nickname}, осталось {missing}. Когда все будет готово, напишите еще один комментарий или сообщение - проверим снова.',
+  },
+  nickname: {
+    patterns: [
+      'ник:\\s*(.*?)(?:\\n|$)', // ник: nickname или Ник: nickname
+      'ник\\s+(.*?)(?:\\n|$)', // ник nickname или Ник nickname
+    ],
+    minLength: 1,
+    maxLength: 32,
+    alphabets: [],
+    bannedWords: [],
+    letterCase: 'keep',
+  },
+  // По умолчанию модерация выключена: для нее нужны администраторы в ADMIN_IDS или ADMIN_TOKEN
+  moderation: {
+    blocklist: [],
+    holdMixedScripts: false,
+    holdLinks: false,
+  },
+  // По умолчанию бандл получает любой, кто написал ник
+  eligibility: {
+    member: false,
+    like: false,
+    repost: false,
+  },
+  archiveName: 'bundle_{nickname}.zip',
+  delivery: 'comment',
+  outputs: [],
+};
+
+@Injectable()
+export class CampaignsService implements OnModuleInit {
+  #configService: ConfigService;
+  #campaigns: Campaign[] = [];
+
+  constructor(configService: ConfigService) {
+    this.#configService = configService;
+  }
+
+  async onModuleInit() {
+    this.#campaigns = await this.#load();
+    console.log(
+      'Активные акции:',
+      this.#campaigns.map(
+        (campaign) => `${campaign.id} (пост ${campaign.postId})`,
+      ),
+    );
+  }
+
+  getAll(): Campaign[] {
+    return this.#campaigns;
+  }
+
+  getById(id: string): Campaign | undefined {
+    return this.#campaigns.find((campaign) => campaign.id === id);
+  }
+
+  /**
+   * Акция для превью: по id, иначе первая настроенная или оформление по умолчанию.
+   */
+  getForPreview(id?: string): Campaign | undefined {
+    if (id) {
+      return this.getById(id);
+    }
+    return this.#campaigns[0] ?? this.#resolve({ id: 'default', postId: 0 });
+  }
+
+  findByPost(ownerId: number, postId: number): Campaign | undefined {
+    return this.#campaigns.find(
+      (campaign) =>
+        campaign.postId === postId &&
+        (campaign.ownerId === undefined || campaign.ownerId === ownerId),
+    );
+  }
+
+  /**
+   * Акция для запросов в личных сообщениях: первая, которая доставляет бандлы в личку.
+   */
+  findForMessages(): Campaign | undefined {
+    return this.#campaigns.find((campaign) => campaign.delivery !== 'comment');
+  }
+
+  formatMessage(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match: string, key: string) =>
+      key in values ? values[key] : match,
+    );
+  }
+
+  #load = async (): Promise<Campaign[]> => {
+    const campaignsPath = path.resolve(
+      process.cwd(),
+      this.#configService.get<string>('CAMPAIGNS_PATH') || 'campaigns.json',
+    );
+
+    let definitions: CampaignDefinition[];
+    try {
+      definitions = JSON.parse(await fs.readFile(campaignsPath, 'utf-8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(
+          `Не удалось прочитать акции из ${campaignsPath}: ${error.message}`,
+        );
+      }
+
+      // Без файла акций работаем по-старому: один пост из TARGET_POST_ID
+      const targetPostId = this.#configService.get<string>('TARGET_POST_ID');
+      if (!targetPostId) {
+        console.warn(
+          `Файл акций ${campaignsPath} не найден и TARGET_POST_ID не задан`,
+        );
+        return [];
+      }
+      definitions = [{ id: 'default', postId: Number(targetPostId) }];
+    }
+
+    if (!Array.isArray(definitions)) {
+      throw new Error(`Файл акций ${campaignsPath} должен содержать массив`);
+    }
+
+    const campaigns = definitions.map((definition) =>
+      this.#resolve(definition),
+    );
+    for (const campaign of campaigns) {
+      await this.#checkLayouts(campaign);
+    }
+    return campaigns;
+  };
+
+  // Без этой проверки акция с ошибкой в шаблонах падала бы в каждой задаче после всех повторов
+  #checkLayouts = async (campaign: Campaign): Promise<void> => {
+    let names: string[];
+    try {
+      names = (await loadLayouts(campaign.layouts)).map(
+        (layout) => layout.name,
+      );
+    } catch (error) {
+      throw new Error(
+        `Некорректные шаблоны в акции ${campaign.id}: ${error.message}`,
+      );
+    }
+
+    for (const output of campaign.outputs) {
+      if (!names.includes(output.layout)) {
+        throw new Error(
+          `Некорректный файл ${output.name} в акции ${campaign.id}: шаблона ${output.layout} нет в ${campaign.layouts}`,
+        );
+      }
+    }
+  };
+
+  #resolve = (definition: CampaignDefinition): Campaign => {
+    if (!definition.id || !Number.isInteger(definition.postId)) {
+      throw new Error(
+        `У акции должны быть заданы id и postId: ${JSON.stringify(definition)}`,
+      );
+    }
+
+    const nickname = { ...DEFAULT_CAMPAIGN.nickname, ...definition.nickname };
+    for (const pattern of nickname.patterns) {
+      try {
+        compileNicknamePattern(pattern);
+      } catch (error) {
+        throw new Error(
+          `Некорректный шаблон ника в акции ${definition.id}: ${error.message}`,
+        );
+      }
+    }
+
+    return {
+      ...DEFAULT_CAMPAIGN,
+      ...definition,
+      messages: { ...DEFAULT_CAMPAIGN.messages, ...definition.messages },
+      nickname,
+      moderation: { ...DEFAULT_CAMPAIGN.moderation, ...definition.moderation },
+      eligibility: {
+        ...DEFAULT_CAMPAIGN.eligibility,
+        ...definition.eligibility,
+      },
+      outputs: this.#resolveOutputs(definition.id, definition.outputs ?? []),
+    };
+  };
+
+  #resolveOutputs = (
+    campaignId: string,
+    definitions: OutputDefinition[],
+  ): BundleOutput[] => {
+    const outputs = definitions.map((definition): BundleOutput => {
+      const name =
+        typeof definition === 'string' ? definition : definition.name;
+      const base = OUTPUT_PRESETS[name] ?? {
+        name,
+        layout: name,
+        format: 'png',
+      };
+      return typeof definition === 'string' ? base : { ...base, ...definition };
+    });
+
+    const names = new Set<string>();
+    for (const output of outputs) {
+      const problem = this.#checkOutput(output, names);
+      if (problem) {
+        throw new Error(
+          `Некорректный файл ${output.name} в акции ${campaignId}: ${problem}`,
+        );
+      }
+      names.add(output.name);
+    }
+
+    return outputs;
+  };
+
+  #checkOutput = (
+    output: BundleOutput,
+    names: Set<string>,
+  ): string | undefined => {
+    const isSize = (value?: number) =>
+      value === undefined || (Number.isInteger(value) && value > 0);
+
+    if (!output.name || names.has(output.name)) {
+      return 'имя файла пустое или повторяется';
+    }
+    if (!OUTPUT_FORMATS.includes(output.format)) {
+      return `формат должен быть одним из ${OUTPUT_FORMATS.join(', ')}`;
+    }
+    if (!isSize(output.width) || !isSize(output.height)) {
+      return 'ширина и высота должны быть целыми положительными числами';
+    }
+    if (output.fit && !['cover', 'contain'].includes(output.fit)) {
+      return 'fit должен быть cover или contain';
+    }
+    if (
+      output.quality !== undefined &&
+      !(output.quality >= 1 && output.quality <= 100)
+    ) {
+      return 'качество должно быть от 1 до 100';
+    }
+    return undefined;
+  };
+}
@@ -0,0 +1,48 @@
+import { BundleOutput } from '../types/campaign.type';
+
+/**
+ * Готовые размеры для популярных площадок. В акции их можно указать по имени:
+ * "outputs": ["cover_vk", "avatar", "telegram_avatar", "story"], а поля
+ * переопределить объектом с тем же name.
+ */
+export const OUTPUT_PRESETS: Record<string, BundleOutput> = {
+  telegram_avatar: {
+    name: 'telegram_avatar',
+    layout: 'avatar',
+    format: 'jpeg',
+    width: 640,
+    height: 640,
+    quality: 90,
+    description: 'Аватар для Telegram',
+  },
+  discord_avatar: {
+    name: 'discord_avatar',
+    layout: 'avatar',
+    format: 'png',
+    width: 512,
+    height: 512,
+    description: 'Аватар для Discord',
+  },
+  story: {
+    name: 'story',
+    layout: 'avatar',
+    format: 'jpeg',
+    width: 1080,
+    height: 1920,
+    fit: 'contain',
+    background: '#000000',
+    quality: 90,
+    description: 'История VK или Instagram, обои на телефон',
+  },
+  youtube_banner: {
+    name: 'youtube_banner',
+    layout: 'cover_vk',
+    format: 'jpeg',
+    width: 2560,
+    height: 1440,
+    fit: 'contain',
+    background: '#000000',
+    quality: 90,
+    description: 'Баннер канала YouTube',
+  },
+};
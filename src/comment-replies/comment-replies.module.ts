@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CommentRepliesService } from './comment-replies.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [StorageModule],
+  providers: [CommentRepliesService],
+  exports: [CommentRepliesService],
+})
+export class CommentRepliesModule {}
@@ -0,0 +1,75 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CommentRepliesService } from './comment-replies.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('CommentRepliesService', () => {
+  let service: CommentRepliesService;
+
+  const comment = (commentId: number) => ({
+    ownerId: -1,
+    postId: 10,
+    commentId,
+    fromId: 7,
+    text: 'ник Neo',
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentRepliesService,
+        {
+          provide: StorageService,
+          useValue: {
+            read: (_name: string, fallback: unknown) =>
+              Promise.resolve(fallback),
+            write: () => Promise.resolve(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CommentRepliesService>(CommentRepliesService);
+  });
+
+  it('should keep the first record when a comment arrives again', async () => {
+    await service.track(comment(5), 'Neo');
+    await service.addReply(-1, 5, 20, ['doc1_1']);
+
+    await expect(service.track(comment(5), 'Trinity')).resolves.toMatchObject({
+      id: '-1_5',
+      nickname: 'Neo',
+      replyIds: [20],
+    });
+  });
+
+  it('should count nickname edits', async () => {
+    await service.track(comment(5), 'Nea');
+
+    await expect(service.revise(-1, 5, 'Neo')).resolves.toBe(1);
+    await expect(service.revise(-1, 5, 'Neon')).resolves.toBe(2);
+    await expect(service.get(-1, 5)).resolves.toMatchObject({
+      nickname: 'Neon',
+      revision: 2,
+    });
+    await expect(service.revise(-1, 6, 'Neo')).rejects.toThrow();
+  });
+
+  it('should hand over replies and refuse new ones after deletion', async () => {
+    await service.track(comment(5), 'Neo');
+    await service.track(comment(6), 'Neo');
+    await service.addReply(-1, 5, 20, ['doc1_1', 'doc1_2']);
+    await service.addReply(-1, 5, 21, ['doc1_2', 'doc1_3']);
+    await service.addReply(-1, 6, 22, ['doc1_1']);
+
+    await expect(service.takeReplies(-1, 5, true)).resolves.toEqual({
+      replyIds: [20, 21],
+      docs: ['doc1_1', 'doc1_2', 'doc1_3'],
+    });
+    await expect(service.isDocUsed('doc1_1')).resolves.toBe(true);
+    await expect(service.isDocUsed('doc1_2')).resolves.toBe(false);
+
+    await expect(service.addReply(-1, 5, 23)).resolves.toBe(false);
+    await expect(service.addReply(-1, 99, 24)).resolves.toBe(true);
+    await expect(service.takeReplies(-1, 99)).resolves.toBeUndefined();
+  });
+});
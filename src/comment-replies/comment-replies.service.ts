@@ -0,0 +1,163 @@
+import { Injectable } from '@nestjs/common';
+import { StorageService } from '../storage/storage.service';
+import { CommentReplies } from '../types/comment-replies.type';
+import { IncomingComment } from '../types/incoming-comment.type';
+
+const REPLIES_FILE = 'replies.json';
+
+// Что нужно удалить в VK, чтобы убрать ответ бота
+export interface RemovedReplies {
+  replyIds: number[];
+  docs: string[];
+}
+
+/**
+ * Связь комментария с ником и ответов, которые на него оставил бот.
+ */
+@Injectable()
+export class CommentRepliesService {
+  #storage: StorageService;
+  #records?: Promise<CommentReplies[]>;
+
+  constructor(storage: StorageService) {
+    this.#storage = storage;
+  }
+
+  async get(
+    ownerId: number,
+    commentId: number,
+  ): Promise<CommentReplies | undefined> {
+    const records = await this.#load();
+    return records.find((record) => record.id === this.#id(ownerId, commentId));
+  }
+
+  /**
+   * Заводит запись для комментария, если ее еще нет. Повторная доставка
+   * того же комментария запись не меняет.
+   */
+  async track(
+    comment: IncomingComment,
+    nickname: string,
+  ): Promise<CommentReplies> {
+    const existing = await this.get(comment.ownerId, comment.commentId);
+    if (existing) {
+      return existing;
+    }
+
+    const records = await this.#load();
+    const now = Date.now();
+    const record: CommentReplies = {
+      id: this.#id(comment.ownerId, comment.commentId),
+      ownerId: comment.ownerId,
+      postId: comment.postId,
+      commentId: comment.commentId,
+      nickname,
+      revision: 0,
+      replyIds: [],
+      docs: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    records.push(record);
+    await this.#save(records);
+    return record;
+  }
+
+  /**
+   * Запоминает новый ник из исправленного комментария и возвращает номер правки.
+   */
+  async revise(
+    ownerId: number,
+    commentId: number,
+    nickname: string,
+  ): Promise<number> {
+    const records = await this.#load();
+    const record = await this.get(ownerId, commentId);
+    if (!record) {
+      throw new Error(`Комментарий ${this.#id(ownerId, commentId)} не найден`);
+    }
+
+    record.nickname = nickname;
+    record.revision++;
+    record.updatedAt = Date.now();
+    await this.#save(records);
+    return record.revision;
+  }
+
+  /**
+   * Добавляет ответ бота. Возвращает false, если исходный комментарий
+   * уже удален и ответ тоже нужно убрать.
+   */
+  async addReply(
+    ownerId: number,
+    commentId: number,
+    replyId: number,
+    docs: string[] = [],
+  ): Promise<boolean> {
+    const records = await this.#load();
+    const record = await this.get(ownerId, commentId);
+    // Комментарии, на которые бот ответил до появления записей, не отслеживаются
+    if (!record) {
+      return true;
+    }
+    if (record.deleted) {
+      return false;
+    }
+
+    record.replyIds.push(replyId);
+    for (const doc of docs) {
+      if (!record.docs.includes(doc)) {
+        record.docs.push(doc);
+      }
+    }
+    record.updatedAt = Date.now();
+    await this.#save(records);
+    return true;
+  }
+
+  /**
+   * Забирает ответы бота из записи, чтобы удалить их в VK. С deleted
+   * запись помечается удаленной, и следующие ответы на нее не сохраняются.
+   */
+  async takeReplies(
+    ownerId: number,
+    commentId: number,
+    deleted = false,
+  ): Promise<RemovedReplies | undefined> {
+    const records = await this.#load();
+    const record = await this.get(ownerId, commentId);
+    if (!record) {
+      return undefined;
+    }
+
+    const { replyIds, docs } = record;
+    record.replyIds = [];
+    record.docs = [];
+    record.deleted ||= deleted;
+    record.updatedAt = Date.now();
+    await this.#save(records);
+    return { replyIds, docs };
+  }
+
+  /**
+   * Прикреплен ли документ к ответам на другие комментарии: бандлы из кэша
+   * у одинаковых ников общие.
+   */
+  async isDocUsed(doc: string): Promise<boolean> {
+    const records = await this.#load();
+    return records.some((record) => record.docs.includes(doc));
+  }
+
+  #id = (ownerId: number, commentId: number): string => {
+    return `${ownerId}_${commentId}`;
+  };
+
+  #load = (): Promise<CommentReplies[]> => {
+    this.#records ??= this.#storage.read<CommentReplies[]>(REPLIES_FILE, []);
+    return this.#records;
+  };
+
+  #save = (records: CommentReplies[]): Promise<void> => {
+    return this.#storage.write(REPLIES_FILE, records);
+  };
+}
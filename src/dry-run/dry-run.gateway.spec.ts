@@ -0,0 +1,131 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import * as FormData from 'form-data';
+import { DryRunGateway } from './dry-run.gateway';
+
+describe('DryRunGateway', () => {
+  let gateway: DryRunGateway;
+  let tmpDir: string;
+
+  const createGateway = (config: Record<string, string> = {}) =>
+    new DryRunGateway(
+      new ConfigService({
+        DRY_RUN_OUTPUT_DIR: path.join(tmpDir, 'out'),
+        ...config,
+      }),
+    );
+
+  const readLines = async <T>(name: string): Promise<T[]> =>
+    (await fs.readFile(path.join(tmpDir, 'out', name), 'utf-8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as T);
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dry-run-'));
+    gateway = createGateway();
+  });
+
+  afterEach(async () => {
+    gateway.onModuleDestroy();
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read comments in VK formats from a file', async () => {
+    const inputPath = path.join(tmpDir, 'comments.json');
+    await fs.writeFile(
+      inputPath,
+      JSON.stringify({
+        response: {
+          items: [
+            {
+              id: 5,
+              from_id: 7,
+              owner_id: -1,
+              post_id: 10,
+              text: 'ник Neo',
+              attachments: [
+                {
+                  type: 'photo',
+                  photo: {
+                    sizes: [
+                      { type: 'x', url: 'https://vk.test/x.jpg', width: 604 },
+                      { type: 'w', url: 'https://vk.test/w.jpg' },
+                      { type: 'm', url: 'https://vk.test/m.jpg', width: 130 },
+                    ],
+                    orig_photo: {
+                      url: 'https://vk.test/orig.jpg',
+                      width: 2560,
+                      height: 1440,
+                    },
+                  },
+                },
+              ],
+            },
+            {
+              type: 'wall_reply_new',
+              object: { id: 6, post_owner_id: -1, post_id: 10, text: 'ник' },
+            },
+            { text: 'без id' },
+          ],
+        },
+      }),
+    );
+    gateway = createGateway({ DRY_RUN_INPUT: inputPath });
+
+    await expect(gateway.readComments()).resolves.toEqual([
+      {
+        ownerId: -1,
+        postId: 10,
+        commentId: 5,
+        fromId: 7,
+        text: 'ник Neo',
+        photoUrl: 'https://vk.test/orig.jpg',
+      },
+      { ownerId: -1, postId: 10, commentId: 6, fromId: 0, text: 'ник' },
+    ]);
+  });
+
+  it('should write uploads, replies and the API log to disk', async () => {
+    const { upload_url } = await gateway.getMessagesUploadServer({
+      type: 'doc',
+      peer_id: -1,
+    });
+    const form = new FormData();
+    form.append('file', Buffer.from('zip'), { filename: 'bundle.zip' });
+    const { file } = (await (
+      await fetch(upload_url, { method: 'POST', body: form })
+    ).json()) as { file: string };
+    const { doc } = await gateway.saveDocument({ file, title: 'bundle.zip' });
+    await gateway.createComment({
+      owner_id: -1,
+      post_id: 10,
+      reply_to_comment: 5,
+      message: 'Готово',
+      attachments: `doc${doc.owner_id}_${doc.id}`,
+    });
+
+    const [reply] = await readLines<{
+      replyTo: number;
+      message: string;
+      attachments: string[];
+    }>('comments.jsonl');
+    expect(reply).toMatchObject({ replyTo: 5, message: 'Готово' });
+    await expect(
+      fs.readFile(path.join(tmpDir, 'out', reply.attachments[0])),
+    ).resolves.toEqual(Buffer.from('zip'));
+
+    const calls = await readLines<{ method: string }>('calls.jsonl');
+    expect(calls.map((call) => call.method)).toEqual([
+      'docs.getMessagesUploadServer',
+      'docs.save',
+      'wall.createComment',
+    ]);
+  });
+});
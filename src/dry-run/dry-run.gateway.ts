@@ -0,0 +1,183 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  FakeComment,
+  FakeMessage,
+  FakeVkGateway,
+  UploadedFile,
+} from '../vk/fake-vk.gateway';
+import { toIncomingComment, VkComment } from '../vk/incoming-comment';
+import { IncomingComment } from '../types/incoming-comment.type';
+
+const CALLS_FILE = 'calls.jsonl';
+const COMMENTS_FILE = 'comments.jsonl';
+const MESSAGES_FILE = 'messages.jsonl';
+const UPLOADS_DIR = 'uploads';
+
+/**
+ * Режим без VK: комментарии читаются из файла или stdin, а загрузки, ответы
+ * и журнал запросов к API складываются в DRY_RUN_OUTPUT_DIR.
+ */
+export class DryRunGateway extends FakeVkGateway {
+  #input?: string;
+  #outputDir: string;
+  // Пути к сохраненным файлам, чтобы в ответах было видно, что именно прикреплено
+  #paths = new Map<string, string>();
+  #prepared?: Promise<void>;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.health.transport = 'dry-run';
+    this.#input = configService.get<string>('DRY_RUN_INPUT');
+    this.#outputDir = path.resolve(
+      process.cwd(),
+      configService.get<string>('DRY_RUN_OUTPUT_DIR') || 'dry-run',
+    );
+    console.log(
+      `Dry-run: запросы к VK не отправляются, результаты пишутся в ${this.#outputDir}`,
+    );
+  }
+
+  async start(): Promise<void> {
+    const comments = await this.readComments();
+    console.log(`Dry-run: комментариев для прогона: ${comments.length}`);
+
+    for (const comment of comments) {
+      await this.emitComment(comment);
+    }
+  }
+
+  /**
+   * Комментарии для прогона. DRY_RUN_INPUT - путь к JSON-файлу или "-" для stdin.
+   */
+  async readComments(): Promise<IncomingComment[]> {
+    if (!this.#input) {
+      console.log(
+        'DRY_RUN_INPUT не задан, комментарии для прогона не загружены',
+      );
+      return [];
+    }
+
+    const content = await this.#readInput(this.#input);
+    return this.parseComments(JSON.parse(content));
+  }
+
+  /**
+   * Принимает массив комментариев, ответ wall.getComments или события Callback API.
+   */
+  parseComments(data: unknown): IncomingComment[] {
+    const comments: IncomingComment[] = [];
+
+    for (const item of this.#unwrapItems(data)) {
+      const comment = (
+        item && typeof item === 'object' && 'object' in item
+          ? item.object
+          : item
+      ) as VkComment;
+      const incoming = toIncomingComment(comment);
+
+      if (!incoming) {
+        console.warn('Пропущен комментарий без id, поста или владельца:', item);
+        continue;
+      }
+
+      comments.push(incoming);
+    }
+
+    return comments;
+  }
+
+  protected async record(method: string, params: object): Promise<void> {
+    await super.record(method, params);
+    await this.#append(CALLS_FILE, {
+      time: new Date().toISOString(),
+      method,
+      params,
+    });
+  }
+
+  protected async saveFile(
+    attachment: string,
+    file: UploadedFile,
+  ): Promise<void> {
+    await super.saveFile(attachment, file);
+    await this.#prepare();
+
+    // Относительный путь, чтобы журнал не зависел от того, где лежит папка
+    const filePath = path.join(UPLOADS_DIR, `${attachment}_${file.fileName}`);
+    await fs.writeFile(path.join(this.#outputDir, filePath), file.data);
+    this.#paths.set(attachment, filePath);
+  }
+
+  protected async saveComment(comment: FakeComment): Promise<void> {
+    await super.saveComment(comment);
+    await this.#append(COMMENTS_FILE, {
+      ...comment,
+      attachments: this.#resolvePaths(comment.attachments),
+    });
+    console.log(
+      `[dry-run] Ответ на комментарий ${comment.replyTo}: ${comment.message}`,
+    );
+  }
+
+  protected async saveMessage(message: FakeMessage): Promise<void> {
+    await super.saveMessage(message);
+    await this.#append(MESSAGES_FILE, {
+      ...message,
+      attachments: this.#resolvePaths(message.attachments),
+    });
+    console.log(
+      `[dry-run] Сообщение пользователю ${message.peerId}: ${message.message}`,
+    );
+  }
+
+  #resolvePaths = (attachments: string[]): string[] => {
+    return attachments.map(
+      (attachment) => this.#paths.get(attachment) ?? attachment,
+    );
+  };
+
+  #unwrapItems = (data: unknown): unknown[] => {
+    if (Array.isArray(data)) {
+      return data;
+    }
+
+    const response = (data as { response?: unknown })?.response ?? data;
+    const items = (response as { items?: unknown })?.items;
+    if (Array.isArray(items)) {
+      return items;
+    }
+
+    throw new Error(
+      'Ожидался массив комментариев или ответ wall.getComments с полем items',
+    );
+  };
+
+  #readInput = async (input: string): Promise<string> => {
+    if (input !== '-') {
+      return fs.readFile(path.resolve(process.cwd(), input), 'utf-8');
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  };
+
+  #prepare = (): Promise<void> => {
+    this.#prepared ??= fs
+      .mkdir(path.join(this.#outputDir, UPLOADS_DIR), { recursive: true })
+      .then(() => undefined);
+    return this.#prepared;
+  };
+
+  #append = async (name: string, entry: object): Promise<void> => {
+    await this.#prepare();
+    await fs.appendFile(
+      path.join(this.#outputDir, name),
+      `${JSON.stringify(entry)}\n`,
+    );
+  };
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { HistoryService } from './history.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [StorageModule],
+  providers: [HistoryService],
+  exports: [HistoryService],
+})
+export class HistoryModule {}
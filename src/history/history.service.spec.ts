@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryService } from './history.service';
+import { StorageService } from '../storage/storage.service';
+import { HistoryRecord } from '../types/history.type';
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+  let dataDir: string;
+
+  const run = (
+    requestId: string,
+    userId: number,
+    nickname: string,
+    extra: Partial<HistoryRecord> = {},
+  ): Omit<HistoryRecord, 'id'> => ({
+    requestId,
+    campaignId: 'winter',
+    ownerId: -1,
+    postId: 10,
+    userId,
+    nickname,
+    kind: 'bundle',
+    status: 'issued',
+    startedAt: Date.UTC(2026, 0, 1, 12),
+    finishedAt: Date.UTC(2026, 0, 1, 12, 0, 5),
+    ...extra,
+  });
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HistoryService,
+        StorageService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    return module.get<HistoryService>(HistoryService);
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'history-'));
+    service = await createService();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should search newest first and survive a restart', async () => {
+    await service.add(
+      run('-1_5', 7, 'Neo', { status: 'failed', error: 'timeout' }),
+    );
+    await service.add(run('-1_5', 7, 'Neo', { resultUrl: 'https://vk.com/1' }));
+    await service.add(run('-1_6', 8, 'Trinity', { campaignId: 'summer' }));
+
+    const restarted = await createService();
+
+    await expect(restarted.findLast('-1_5')).resolves.toMatchObject({
+      status: 'issued',
+      resultUrl: 'https://vk.com/1',
+    });
+    expect((await restarted.find()).map((record) => record.nickname)).toEqual([
+      'Trinity',
+      'Neo',
+      'Neo',
+    ]);
+    await expect(restarted.find({ search: 'tRin' })).resolves.toHaveLength(1);
+    await expect(restarted.find({ search: '-1_5' })).resolves.toHaveLength(2);
+    await expect(restarted.find({ search: '8' })).resolves.toHaveLength(1);
+    await expect(
+      restarted.find({ userId: 7, status: 'failed' }),
+    ).resolves.toMatchObject([{ error: 'timeout' }]);
+    await expect(
+      restarted.find({ campaignId: 'summer' }),
+    ).resolves.toHaveLength(1);
+  });
+
+  it('should export CSV that spreadsheets open safely', async () => {
+    await service.add(
+      run('-1_5', 7, '=HYPERLINK("x")', {
+        commentId: 5,
+        attachments: ['doc1_1', 'doc1_2'],
+      }),
+    );
+
+    const [header, row] = service
+      .toCsv(await service.find())
+      .trimEnd()
+      .split('\r\n');
+    expect(header).toBe(
+      'startedAt,finishedAt,requestId,campaignId,ownerId,postId,commentId,messageId,userId,nickname,kind,status,reason,error,resultUrl,attachments',
+    );
+    expect(row).toBe(
+      `2026-01-01T12:00:00.000Z,2026-01-01T12:00:05.000Z,-1_5,winter,-1,10,5,,7,"'=HYPERLINK(""x"")",bundle,issued,,,,doc1_1 doc1_2`,
+    );
+  });
+});
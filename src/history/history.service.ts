@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { HistoryRecord, HistoryStatus } from '../types/history.type';
+
+const HISTORY_FILE = 'history.jsonl';
+
+export interface HistoryQuery {
+  // Часть ника, id пользователя или ключ запроса
+  search?: string;
+  campaignId?: string;
+  userId?: number;
+  status?: HistoryStatus;
+}
+
+const CSV_COLUMNS: (keyof HistoryRecord)[] = [
+  'startedAt',
+  'finishedAt',
+  'requestId',
+  'campaignId',
+  'ownerId',
+  'postId',
+  'commentId',
+  'messageId',
+  'userId',
+  'nickname',
+  'kind',
+  'status',
+  'reason',
+  'error',
+  'resultUrl',
+  'attachments',
+];
+
+/**
+ * Журнал обработки запросов: кто, какой ник и что в итоге получил.
+ */
+@Injectable()
+export class HistoryService {
+  #storage: StorageService;
+  #records?: Promise<HistoryRecord[]>;
+
+  constructor(storage: StorageService) {
+    this.#storage = storage;
+  }
+
+  async add(record: Omit<HistoryRecord, 'id'>): Promise<HistoryRecord> {
+    const records = await this.#load();
+    const saved = { id: randomUUID(), ...record };
+    records.push(saved);
+    await this.#storage.append(HISTORY_FILE, saved);
+    return saved;
+  }
+
+  /**
+   * Записи по запросу, от новых к старым.
+   */
+  async find(query: HistoryQuery = {}): Promise<HistoryRecord[]> {
+    const records = await this.#load();
+    const search = query.search?.trim().toLowerCase();
+
+    return records
+      .filter(
+        (record) =>
+          (!query.campaignId || record.campaignId === query.campaignId) &&
+          (query.userId === undefined || record.userId === query.userId) &&
+          (!query.status || record.status === query.status) &&
+          (!search ||
+            record.nickname.toLowerCase().includes(search) ||
+            record.requestId === search ||
+            String(record.userId) === search),
+      )
+      .reverse();
+  }
+
+  /**
+   * Последняя обработка запроса: из нее берется все, чтобы отправить бандл еще раз.
+   */
+  async findLast(requestId: string): Promise<HistoryRecord | undefined> {
+    const records = await this.#load();
+    return records.findLast((record) => record.requestId === requestId);
+  }
+
+  toCsv(records: HistoryRecord[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const record of records) {
+      lines.push(
+        CSV_COLUMNS.map((column) =>
+          this.#csvValue(column, record[column]),
+        ).join(','),
+      );
+    }
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  #csvValue = (column: keyof HistoryRecord, value: unknown): string => {
+    let text: string;
+    if (value === undefined || value === null) {
+      text = '';
+    } else if (Array.isArray(value)) {
+      text = value.join(' ');
+    } else if (column === 'startedAt' || column === 'finishedAt') {
+      text = new Date(value as number).toISOString();
+    } else {
+      text = String(value as string | number);
+    }
+
+    // Ник пишет пользователь: без апострофа таблица выполнила бы =HYPERLINK(...) как формулу
+    if (column === 'nickname' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  #load = (): Promise<HistoryRecord[]> => {
+    this.#records ??= this.#storage.readLines<HistoryRecord>(HISTORY_FILE);
+    return this.#records;
+  };
+}
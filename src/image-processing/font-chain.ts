@@ -0,0 +1,47 @@
+import { FontMetrics } from './font-metrics';
+
+/**
+ * Цепочка шрифтов: каждый символ берется из первого шрифта, в котором он есть.
+ * Так же выбирает шрифт librsvg по списку font-family.
+ */
+export class FontChain {
+  constructor(readonly fonts: FontMetrics[]) {
+    if (!fonts.length) {
+      throw new Error('Цепочка шрифтов не может быть пустой');
+    }
+  }
+
+  get primary(): FontMetrics {
+    return this.fonts[0];
+  }
+
+  get familyNames(): string[] {
+    return [...new Set(this.fonts.map((font) => font.familyName))];
+  }
+
+  fontFor(char: string): FontMetrics | undefined {
+    const codePoint = char.codePointAt(0)!;
+    return this.fonts.find((font) => font.hasGlyph(codePoint));
+  }
+
+  /**
+   * Символы, которых нет ни в одном шрифте цепочки (пробельные не учитываются).
+   */
+  findMissing(text: string): string[] {
+    const missing = [...text].filter(
+      (char) => !/\s/.test(char) && !this.fontFor(char),
+    );
+    return [...new Set(missing)];
+  }
+
+  measure(text: string, fontSize: number, letterSpacing = 0): number {
+    const chars = [...text];
+    const ems = chars.reduce(
+      (sum, char) => sum + (this.fontFor(char) ?? this.primary).advance(char),
+      0,
+    );
+    const spacing = letterSpacing * fontSize * Math.max(chars.length - 1, 0);
+
+    return ems * fontSize + spacing;
+  }
+}
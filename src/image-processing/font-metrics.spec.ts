@@ -0,0 +1,39 @@
+import * as path from 'path';
+import { FontMetrics } from './font-metrics';
+
+const fontPath = (file: string) =>
+  path.join(process.cwd(), 'src', 'assets', 'fonts', file);
+
+describe('FontMetrics', () => {
+  it('should read names and metrics from a TrueType font', async () => {
+    const metrics = await FontMetrics.load(fontPath('MULLEREXTRABOLD.TTF'));
+
+    expect(metrics.familyName).toBe('Muller ExtraBold');
+    expect(metrics.weight).toBe(800);
+    expect(metrics.capHeight).toBeGreaterThan(0);
+    expect(metrics.capHeight).toBeLessThan(metrics.unitsPerEm);
+  });
+
+  it('should read CFF-based OpenType fonts', async () => {
+    const metrics = await FontMetrics.load(fontPath('VP_ Muller-Bold.otf'));
+
+    expect(metrics.familyName).toBe('Muller Bold');
+    expect(metrics.measure('W', 100)).toBeGreaterThan(
+      metrics.measure('i', 100),
+    );
+  });
+
+  it('should report glyph coverage', async () => {
+    const metrics = await FontMetrics.load(fontPath('MULLEREXTRABOLD.TTF'));
+
+    expect(metrics.hasGlyph('Ж'.codePointAt(0)!)).toBe(true);
+    expect(metrics.hasGlyph('中'.codePointAt(0)!)).toBe(false);
+  });
+
+  it('should apply letter spacing between glyphs', async () => {
+    const metrics = await FontMetrics.load(fontPath('MULLEREXTRABOLD.TTF'));
+    const plain = metrics.measure('ab', 100);
+
+    expect(metrics.measure('ab', 100, -0.04)).toBeCloseTo(plain - 4);
+  });
+});
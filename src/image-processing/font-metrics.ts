@@ -0,0 +1,222 @@
+import { promises as fs } from 'fs';
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Метрики шрифта TTF/OTF, прочитанные напрямую из таблиц sfnt.
+ * Ширина считается по advance width глифов без кернинга (GPOS),
+ * поэтому для плотных пар результат может быть чуть больше реального.
+ */
+export class FontMetrics {
+  readonly familyName: string;
+  readonly weight: number;
+  readonly unitsPerEm: number;
+  readonly ascender: number;
+  readonly descender: number;
+  readonly capHeight: number;
+
+  #advances: number[];
+  #glyphs: Map<number, number>;
+
+  private constructor(buffer: Buffer) {
+    const tables = this.#readTables(buffer);
+    const table = (tag: string): TableRecord => {
+      const record = tables.get(tag);
+      if (!record) {
+        throw new Error(`В шрифте нет таблицы ${tag}`);
+      }
+      return record;
+    };
+
+    const head = table('head');
+    this.unitsPerEm = buffer.readUInt16BE(head.offset + 18);
+
+    const hhea = table('hhea');
+    this.ascender = buffer.readInt16BE(hhea.offset + 4);
+    this.descender = buffer.readInt16BE(hhea.offset + 6);
+    const numberOfHMetrics = buffer.readUInt16BE(hhea.offset + 34);
+
+    const hmtx = table('hmtx');
+    this.#advances = [];
+    for (let i = 0; i < numberOfHMetrics; i++) {
+      this.#advances.push(buffer.readUInt16BE(hmtx.offset + i * 4));
+    }
+
+    const os2 = tables.get('OS/2');
+    const os2Version = os2 ? buffer.readUInt16BE(os2.offset) : 0;
+    this.weight = os2 ? buffer.readUInt16BE(os2.offset + 4) : 400;
+    this.capHeight =
+      os2 && os2Version >= 2
+        ? buffer.readInt16BE(os2.offset + 88)
+        : Math.round(this.ascender * 0.7);
+
+    this.#glyphs = this.#readCmap(buffer, table('cmap'));
+    this.familyName = this.#readFamilyName(buffer, table('name'));
+  }
+
+  static async load(fontPath: string): Promise<FontMetrics> {
+    return new FontMetrics(await fs.readFile(fontPath));
+  }
+
+  hasGlyph(codePoint: number): boolean {
+    return this.#glyphs.has(codePoint);
+  }
+
+  /**
+   * Ширина строки в пикселях. letterSpacing задается в долях em,
+   * как в атрибуте letter-spacing шаблона.
+   */
+  measure(text: string, fontSize: number, letterSpacing = 0): number {
+    const chars = [...text];
+    const ems = chars.reduce((sum, char) => sum + this.advance(char), 0);
+    const spacing = letterSpacing * fontSize * Math.max(chars.length - 1, 0);
+
+    return ems * fontSize + spacing;
+  }
+
+  /**
+   * Ширина символа в долях em. Для отсутствующих символов - ширина .notdef.
+   */
+  advance(char: string): number {
+    const glyphId = this.#glyphs.get(char.codePointAt(0)!) ?? 0;
+    return this.#advance(glyphId) / this.unitsPerEm;
+  }
+
+  #advance = (glyphId: number): number => {
+    // Глифы за пределами numberOfHMetrics используют последнюю ширину
+    return this.#advances[Math.min(glyphId, this.#advances.length - 1)];
+  };
+
+  #readTables = (buffer: Buffer): Map<string, TableRecord> => {
+    const numTables = buffer.readUInt16BE(4);
+    const tables = new Map<string, TableRecord>();
+
+    for (let i = 0; i < numTables; i++) {
+      const recordOffset = 12 + i * 16;
+      tables.set(buffer.toString('latin1', recordOffset, recordOffset + 4), {
+        offset: buffer.readUInt32BE(recordOffset + 8),
+        length: buffer.readUInt32BE(recordOffset + 12),
+      });
+    }
+
+    return tables;
+  };
+
+  #readCmap = (buffer: Buffer, cmap: TableRecord): Map<number, number> => {
+    const numSubtables = buffer.readUInt16BE(cmap.offset + 2);
+    const subtables: { platform: number; encoding: number; offset: number }[] =
+      [];
+
+    for (let i = 0; i < numSubtables; i++) {
+      const recordOffset = cmap.offset + 4 + i * 8;
+      subtables.push({
+        platform: buffer.readUInt16BE(recordOffset),
+        encoding: buffer.readUInt16BE(recordOffset + 2),
+        offset: cmap.offset + buffer.readUInt32BE(recordOffset + 4),
+      });
+    }
+
+    // Предпочитаем полную таблицу Unicode (формат 12), затем BMP (формат 4)
+    const unicode = subtables.filter(
+      (subtable) =>
+        subtable.platform === 0 ||
+        (subtable.platform === 3 &&
+          (subtable.encoding === 1 || subtable.encoding === 10)),
+    );
+    const full = unicode.find(
+      (subtable) => buffer.readUInt16BE(subtable.offset) === 12,
+    );
+    const bmp = unicode.find(
+      (subtable) => buffer.readUInt16BE(subtable.offset) === 4,
+    );
+
+    if (full) {
+      return this.#readCmapFormat12(buffer, full.offset);
+    }
+    if (bmp) {
+      return this.#readCmapFormat4(buffer, bmp.offset);
+    }
+    throw new Error('В шрифте нет поддерживаемой таблицы cmap');
+  };
+
+  #readCmapFormat4 = (buffer: Buffer, offset: number): Map<number, number> => {
+    const glyphs = new Map<number, number>();
+    const segCount = buffer.readUInt16BE(offset + 6) / 2;
+    const endCodes = offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+
+    for (let i = 0; i < segCount; i++) {
+      const end = buffer.readUInt16BE(endCodes + i * 2);
+      const start = buffer.readUInt16BE(startCodes + i * 2);
+      const delta = buffer.readInt16BE(idDeltas + i * 2);
+      const rangeOffsetPosition = idRangeOffsets + i * 2;
+      const rangeOffset = buffer.readUInt16BE(rangeOffsetPosition);
+
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let glyphId: number;
+        if (rangeOffset === 0) {
+          glyphId = (code + delta) & 0xffff;
+        } else {
+          const glyphPosition =
+            rangeOffsetPosition + rangeOffset + (code - start) * 2;
+          glyphId = buffer.readUInt16BE(glyphPosition);
+          if (glyphId !== 0) {
+            glyphId = (glyphId + delta) & 0xffff;
+          }
+        }
+
+        if (glyphId !== 0) {
+          glyphs.set(code, glyphId);
+        }
+      }
+    }
+
+    return glyphs;
+  };
+
+  #readCmapFormat12 = (buffer: Buffer, offset: number): Map<number, number> => {
+    const glyphs = new Map<number, number>();
+    const numGroups = buffer.readUInt32BE(offset + 12);
+
+    for (let i = 0; i < numGroups; i++) {
+      const groupOffset = offset + 16 + i * 12;
+      const start = buffer.readUInt32BE(groupOffset);
+      const end = buffer.readUInt32BE(groupOffset + 4);
+      const startGlyph = buffer.readUInt32BE(groupOffset + 8);
+
+      for (let code = start; code <= end; code++) {
+        glyphs.set(code, startGlyph + code - start);
+      }
+    }
+
+    return glyphs;
+  };
+
+  #readFamilyName = (buffer: Buffer, name: TableRecord): string => {
+    const count = buffer.readUInt16BE(name.offset + 2);
+    const stringsOffset = name.offset + buffer.readUInt16BE(name.offset + 4);
+
+    for (let i = 0; i < count; i++) {
+      const recordOffset = name.offset + 6 + i * 12;
+      const platform = buffer.readUInt16BE(recordOffset);
+      const nameId = buffer.readUInt16BE(recordOffset + 6);
+
+      // Имя семейства (nameID 1) в кодировке Windows UTF-16BE
+      if (platform === 3 && nameId === 1) {
+        const length = buffer.readUInt16BE(recordOffset + 8);
+        const start = stringsOffset + buffer.readUInt16BE(recordOffset + 10);
+        // Копируем, чтобы swap16 не испортил исходный буфер
+        return Buffer.from(buffer.subarray(start, start + length))
+          .swap16()
+          .toString('utf16le');
+      }
+    }
+
+    throw new Error('В шрифте не найдено имя семейства');
+  };
+}
@@ -1,8 +1,8 @@
-import { Module } from '@nestjs/common';
-import { ImageProcessingService } from './image-processing.service';
-
-@Module({
-  providers: [ImageProcessingService],
-  exports: [ImageProcessingService],
-})
-export class ImageProcessingModule {}
+import { Module } from '@nestjs/common';
+import { ImageProcessingService } from './image-processing.service';
+
+@Module({
+  providers: [ImageProcessingService],
+  exports: [ImageProcessingService],
+})
+export class ImageProcessingModule {}
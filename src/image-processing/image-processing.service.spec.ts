@@ -1,5 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import * as sharp from 'sharp';
 import { ImageProcessingService } from './image-processing.service';
+import { UnsupportedCharactersError } from './unsupported-characters.error';
+import { Campaign } from '../types/campaign.type';
+import { TextBox } from '../types/template-layout.type';
+import { createCampaign } from '../campaigns/campaign.fixture';
+
+const campaign = createCampaign();
 
 describe('ImageProcessingService', () => {
   let service: ImageProcessingService;
@@ -15,4 +22,197 @@ describe('ImageProcessingService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should render every layout of the campaign', async () => {
+    const layouts = await service.getLayouts(campaign);
+    const bundle = await service.createBundle('Neo', campaign);
+
+    expect(Object.keys(bundle)).toEqual(layouts.map((layout) => layout.name));
+    for (const layout of layouts) {
+      const metadata = await sharp(bundle[layout.name]).metadata();
+      expect(metadata).toMatchObject({
+        format: 'png',
+        width: layout.width,
+        height: layout.height,
+      });
+    }
+  });
+
+  it('should escape XML special characters in nicknames', async () => {
+    const bundle = await service.createBundle(`a&b<"c'>`, campaign);
+
+    expect(Object.keys(bundle)).toHaveLength(3);
+  });
+
+  it('should pack every layout as PNG by default', async () => {
+    const bundle = await service.createBundle('Neo', campaign);
+    const files = await service.createOutputs('Neo', bundle, campaign);
+
+    expect(files.map((file) => file.fileName)).toEqual([
+      'Neo_cover_vk.png',
+      'Neo_cover_x.png',
+      'Neo_avatar.png',
+    ]);
+    expect(files[2].data).toBe(bundle.avatar);
+    expect(files[2].description).toBe(
+      'Аватар для VK и других соцсетей, 1080×1080, PNG',
+    );
+  });
+
+  it('should encode outputs in the sizes and formats of the campaign', async () => {
+    const custom: Campaign = {
+      ...campaign,
+      outputs: [
+        {
+          name: 'story',
+          layout: 'avatar',
+          format: 'jpeg',
+          width: 1080,
+          height: 1920,
+          fit: 'contain',
+          description: 'История',
+        },
+        { name: 'avatar_small', layout: 'avatar', format: 'webp', width: 256 },
+      ],
+    };
+    const bundle = await service.createBundle('Neo', custom);
+    const files = await service.createOutputs('Neo', bundle, custom);
+
+    expect(files.map((file) => [file.fileName, file.description])).toEqual([
+      ['Neo_story.jpg', 'История, 1080×1920, JPEG'],
+      [
+        'Neo_avatar_small.webp',
+        'Аватар для VK и других соцсетей, 256×256, WEBP',
+      ],
+    ]);
+    await expect(sharp(files[0].data).metadata()).resolves.toMatchObject({
+      format: 'jpeg',
+      width: 1080,
+      height: 1920,
+    });
+    await expect(sharp(files[1].data).metadata()).resolves.toMatchObject({
+      format: 'webp',
+      width: 256,
+      height: 256,
+    });
+
+    await expect(
+      service.createOutputs('Neo', bundle, {
+        ...custom,
+        outputs: [{ name: 'banner', layout: 'banner', format: 'png' }],
+      }),
+    ).rejects.toThrow('Шаблон banner для файла banner не найден');
+  });
+
+  it('should cover characters missing in the main font with fallbacks', async () => {
+    await expect(
+      service.findUnsupportedCharacters('Їжак Ђ', campaign),
+    ).resolves.toEqual([]);
+    await expect(
+      service.findUnsupportedCharacters('Їжак Ђ', {
+        ...campaign,
+        fallbackFonts: [],
+      }),
+    ).resolves.toEqual(['Ї', 'Ђ']);
+  });
+
+  it('should refuse to render characters no font can draw', async () => {
+    await expect(
+      service.findUnsupportedCharacters('Neo 中文 😀', campaign),
+    ).resolves.toEqual(['中', '文', '😀']);
+    await expect(
+      service.createBundle('Neo 😀', campaign),
+    ).rejects.toBeInstanceOf(UnsupportedCharactersError);
+  });
+
+  it('should put the user photo into the circle of the avatar', async () => {
+    const pixel = async (image: Buffer, left: number, top: number) => [
+      ...(await sharp(image)
+        .extract({ left, top, width: 1, height: 1 })
+        .removeAlpha()
+        .raw()
+        .toBuffer()),
+    ];
+    const photo = await service.decodePhoto(
+      await sharp({
+        create: { width: 800, height: 600, channels: 3, background: '#ff0000' },
+      })
+        .png()
+        .toBuffer(),
+    );
+    const plain = await service.createBundle('Neo', campaign);
+    const personal = await service.createBundle('Neo', campaign, photo);
+
+    const region = (image: Buffer, box: TextBox) =>
+      sharp(image)
+        .extract({
+          left: box.x,
+          top: box.y,
+          width: box.width,
+          height: box.height,
+        })
+        .raw()
+        .toBuffer();
+    const avatar = (await service.getLayouts(campaign)).find(
+      (layout) => layout.name === 'avatar',
+    );
+
+    // Внутри круга над ником - фото, в углу - шаблон как есть
+    expect(await pixel(personal.avatar, 540, 240)).toEqual([255, 0, 0]);
+    expect(await pixel(personal.avatar, 20, 20)).toEqual(
+      await pixel(plain.avatar, 20, 20),
+    );
+    // Фото не заходит на ник
+    expect(avatar?.textBox).toBeDefined();
+    const textBox = avatar?.textBox as TextBox;
+    expect(
+      (await region(personal.avatar, textBox)).equals(
+        await region(plain.avatar, textBox),
+      ),
+    ).toBe(true);
+    // В обложках места под фото нет
+    expect(personal.cover_vk.equals(plain.cover_vk)).toBe(true);
+  });
+
+  it('should reject files that are not images', async () => {
+    await expect(
+      service.decodePhoto(Buffer.from('<html></html>')),
+    ).rejects.toThrow();
+  });
+
+  describe.each(['cover_vk', 'cover_x', 'avatar'])(
+    'fitting text into %s',
+    (name) => {
+      const fit = async (nickname: string) => {
+        const layouts = await service.getLayouts(campaign);
+        const layout = layouts.find((item) => item.name === name)!;
+        return {
+          layout,
+          ...(await service.fitText(nickname, layout, campaign)),
+        };
+      };
+
+      it('should shrink wide glyphs more than narrow ones', async () => {
+        const wide = await fit('WWWWWWWW');
+        const narrow = await fit('iiiiiiii');
+
+        expect(wide.fontSize).toBeLessThan(narrow.fontSize);
+        expect(wide.width).toBeLessThanOrEqual(wide.layout.textBox.width);
+        // Широкий ник упирается в ширину контейнера, а не в табличный размер
+        expect(wide.width).toBeGreaterThan(wide.layout.textBox.width * 0.9);
+      });
+
+      it('should keep short nicknames at the maximum size', async () => {
+        const { layout, fontSize } = await fit('Neo');
+
+        expect(fontSize).toBe(layout.fontSize.max);
+      });
+
+      it('should fit the longest allowed nickname', async () => {
+        const { layout, width } = await fit('Ж'.repeat(32));
+
+        expect(width).toBeLessThanOrEqual(layout.textBox.width);
+      });
+    },
+  );
 });
@@ -1,305 +1,577 @@
 import { Injectable } from '@nestjs/common';
 import * as sharp from 'sharp';
 import * as path from 'path';
-import { Bundle } from '../types/bundle.type';
+import * as os from 'os';
+import { promises as fs, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { FontMetrics } from './font-metrics';
+import { FontChain } from './font-chain';
+import { UnsupportedCharactersError } from './unsupported-characters.error';
+import { loadLayouts, resolveAsset } from './template-layouts';
+import { Bundle, BundleFile, PendingBundle } from '../types/bundle.type';
+import { BundleOutput, Campaign, OutputFormat } from '../types/campaign.type';
+import { PhotoSlot, TemplateLayout } from '../types/template-layout.type';
 
-interface FontRatios {
-  baseFontRatio: number; // Базовый коэффициент от ширины
-  minFontRatio: number; // Минимальный коэффициент от ширины
+// Увеличить, если правка рендера меняет картинки при тех же шаблонах и шрифтах
+const RENDERER_VERSION = 1;
+
+const EXTENSIONS: Record<OutputFormat, string> = {
+  png: 'png',
+  webp: 'webp',
+  jpeg: 'jpg',
+};
+
+export interface TextFit {
+  fontSize: number;
+  width: number;
 }
 
-interface TextPositionConfig {
-  maxY: number;
-  minY: number;
-  maxFontSize: number;
-  minFontSize: number;
+// Больше любого места под фото в шаблонах, а рендер с ним заметно дешевле
+const PHOTO_MAX_SIDE = 2048;
+
+// Шаблон или фото пользователя, уже распакованные в пиксели
+export interface DecodedImage {
+  data: Buffer;
+  info: sharp.OutputInfo;
 }
 
 @Injectable()
 export class ImageProcessingService {
-  private readonly TEXT_COLOR = '#987c4b';
-  private readonly FONT_PATH = path.join(
-    process.cwd(),
-    'src',
-    'assets',
-    'fonts',
-    'MULLEREXTRABOLD.TTF',
-  );
+  private readonly layoutsCache = new Map<string, Promise<TemplateLayout[]>>();
+  private readonly fontsCache = new Map<string, Promise<FontMetrics>>();
+  private readonly templatesCache = new Map<string, Promise<DecodedImage>>();
+
+  constructor() {
+    this.registerFonts();
+  }
+
+  // librsvg игнорирует @font-face, поэтому шрифты из assets подключаем через fontconfig.
+  // Переменная читается при первом рендере текста, так что задать ее нужно заранее.
+  private registerFonts() {
+    if (process.env.FONTCONFIG_FILE) {
+      return;
+    }
+
+    const configPath = path.join(os.tmpdir(), 'vk-fan-bundle-bot-fonts.conf');
+    writeFileSync(
+      configPath,
+      `<?xml version="1.0"?>
+<!DOCTYPE fontconfig SYSTEM "fonts.dtd">
+<fontconfig>
+  <include ignore_missing="yes">/etc/fonts/fonts.conf</include>
+  <dir>${path.join(process.cwd(), 'src', 'assets', 'fonts')}</dir>
+</fontconfig>
+`,
+    );
+    process.env.FONTCONFIG_FILE = configPath;
+  }
+
+  async getFontMetrics(font: string): Promise<FontMetrics> {
+    const fontPath = resolveAsset('fonts', font);
+
+    let metrics = this.fontsCache.get(fontPath);
+    if (!metrics) {
+      metrics = FontMetrics.load(fontPath);
+      this.fontsCache.set(fontPath, metrics);
+      metrics.catch(() => this.fontsCache.delete(fontPath));
+    }
+
+    return metrics;
+  }
+
+  async getFontChain(
+    layout: TemplateLayout,
+    campaign: Campaign,
+  ): Promise<FontChain> {
+    const fonts = [layout.font ?? campaign.font, ...campaign.fallbackFonts];
+    return new FontChain(
+      await Promise.all(fonts.map((font) => this.getFontMetrics(font))),
+    );
+  }
+
+  // PNG шаблона распаковывается один раз, дальше рендер работает с готовыми пикселями
+  private getTemplate(layout: TemplateLayout): Promise<DecodedImage> {
+    const templatePath = resolveAsset('templates', layout.template);
+
+    let template = this.templatesCache.get(templatePath);
+    if (!template) {
+      template = sharp(templatePath)
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+        .catch((error) => {
+          console.error(`Ошибка при чтении шаблона: ${templatePath}`, error);
+          throw new Error(`Шаблон ${layout.name} не найден: ${templatePath}`);
+        });
+      this.templatesCache.set(templatePath, template);
+      template.catch(() => this.templatesCache.delete(templatePath));
+    }
+
+    return template;
+  }
+
+  async getLayouts(campaign: Campaign): Promise<TemplateLayout[]> {
+    const layoutsPath = resolveAsset('layouts', campaign.layouts);
+
+    let layouts = this.layoutsCache.get(layoutsPath);
+    if (!layouts) {
+      layouts = loadLayouts(campaign.layouts);
+      this.layoutsCache.set(layoutsPath, layouts);
+      // Не кэшируем ошибку чтения, чтобы исправленный файл подхватился без рестарта
+      layouts.catch(() => this.layoutsCache.delete(layoutsPath));
+    }
 
+    return layouts;
+  }
+
+  /**
+   * Отпечаток оформления акции: описание шаблонов, файлы фонов и шрифтов, цвета.
+   * Меняется при любой правке, от которой зависит результат рендера.
+   */
+  async getTemplateVersion(campaign: Campaign): Promise<string> {
+    const layouts = await this.getLayouts(campaign);
+    const fonts = new Set([
+      ...layouts.map((layout) => layout.font ?? campaign.font),
+      ...campaign.fallbackFonts,
+    ]);
+    const files = [
+      ...layouts.map((layout) => resolveAsset('templates', layout.template)),
+      ...layouts
+        .map((layout) => layout.photo?.mask)
+        .filter((mask): mask is string => Boolean(mask))
+        .map((mask) => resolveAsset('templates', mask)),
+      ...[...fonts].map((font) => resolveAsset('fonts', font)),
+    ];
+
+    const hash = createHash('sha256').update(
+      JSON.stringify({
+        renderer: RENDERER_VERSION,
+        layouts,
+        fonts: [...fonts],
+        textColor: campaign.textColor,
+        outputs: campaign.outputs,
+      }),
+    );
+    // Размер и время изменения дешевле хэша содержимого и так же ловят замену файла
+    for (const file of files) {
+      const { size, mtimeMs } = await fs.stat(file);
+      hash.update(`${file}:${size}:${mtimeMs}`);
+    }
+
+    return hash.digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Подбирает максимальный размер шрифта, при котором ник помещается в textBox.
+   * Если не помещается даже минимальный размер, используется минимальный.
+   */
   private calculateFontSize(
     nickname: string,
-    width: number,
-    ratios: FontRatios = {
-      baseFontRatio: 0.075,
-      minFontRatio: 0.032,
-    },
-  ): number {
-    // Рассчитываем базовый и минимальный размер на основе ширины
-    const baseSize = Math.round(width * ratios.baseFontRatio);
-    const minSize = Math.round(width * ratios.minFontRatio);
-
-    // Фиксированные брейкпоинты
-    const breakpoints = [
-      { length: 1, scale: 1 },
-      { length: 3, scale: 0.98 },
-      { length: 4, scale: 0.96 },
-      { length: 6, scale: 0.84 },
-      { length: 8, scale: 0.64 },
-      { length: 10, scale: 0.5 },
-      // { length: 12, scale: 0.42 },
-      { length: 14, scale: 0.44 },
-      // { length: 16, scale: 0.34 },
-      { length: 18, scale: 0.36 },
-      { length: 20, scale: 0.3 },
-      { length: 22, scale: 0.28 },
-      // { length: 24, scale: 0.26 },
-      { length: 26, scale: 0.24 },
-      // { length: 28, scale: 0.22 },
-      { length: 30, scale: 0.2 },
-      { length: 32, scale: 0.18 },
-    ];
-    // Находим подходящий масштаб
-    let scale = breakpoints[breakpoints.length - 1].scale;
-    for (const breakpoint of breakpoints) {
-      if (nickname.length <= breakpoint.length) {
-        scale = breakpoint.scale;
-        break;
+    layout: TemplateLayout,
+    fonts: FontChain,
+  ): TextFit {
+    const { textBox, letterSpacing } = layout;
+    const capHeightRatio = fonts.primary.capHeight / fonts.primary.unitsPerEm;
+    const measure = (fontSize: number): TextFit => ({
+      fontSize,
+      width: fonts.measure(nickname, fontSize, letterSpacing),
+    });
+    const fits = (fit: TextFit) =>
+      fit.width <= textBox.width &&
+      fit.fontSize * capHeightRatio <= textBox.height;
+
+    // Бинарный поиск по целым размерам шрифта
+    let low = layout.fontSize.min;
+    let high = layout.fontSize.max;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fits(measure(middle))) {
+        low = middle;
+      } else {
+        high = middle - 1;
       }
     }
 
-    // Рассчитываем итоговый размер
-    const size = Math.round(baseSize * scale);
-    return Math.max(size, minSize);
+    return measure(low);
   }
 
   private calculateTextPosition(
     fontSize: number,
-    config: TextPositionConfig = {
-      maxY: 420,
-      minY: 360,
-      maxFontSize: 144,
-      minFontSize: 64,
-    },
-  ): number {
-    // Линейная интерполяция между maxY и minY на основе размера шрифта
-    const position =
-      config.maxY -
-      ((config.maxY - config.minY) * (config.maxFontSize - fontSize)) /
-        (config.maxFontSize - config.minFontSize);
-    return Math.round(position); // Округляем до целого числа
+    layout: TemplateLayout,
+    fonts: FontChain,
+  ): { x: number; y: number } {
+    const { textBox } = layout;
+    const { capHeight: capHeightUnits, unitsPerEm } = fonts.primary;
+    const capHeight = (fontSize * capHeightUnits) / unitsPerEm;
+
+    const x = {
+      start: textBox.x,
+      middle: textBox.x + textBox.width / 2,
+      end: textBox.x + textBox.width,
+    }[layout.anchor];
+
+    // y - это базовая линия текста
+    const y = {
+      top: textBox.y + capHeight,
+      middle: textBox.y + (textBox.height + capHeight) / 2,
+      bottom: textBox.y + textBox.height,
+    }[layout.baseline];
+
+    return { x: Math.round(x), y: Math.round(y) };
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
   }
 
-  async createBundle(nickname: string): Promise<Bundle> {
+  /**
+   * Символы ника, которые не может отрисовать ни один шрифт хотя бы одного шаблона.
+   */
+  async findUnsupportedCharacters(
+    nickname: string,
+    campaign: Campaign,
+  ): Promise<string[]> {
+    const missing = new Set<string>();
+
+    for (const layout of await this.getLayouts(campaign)) {
+      const fonts = await this.getFontChain(layout, campaign);
+      fonts.findMissing(nickname).forEach((char) => missing.add(char));
+    }
+
+    return [...missing];
+  }
+
+  /**
+   * Запускает рендер всех шаблонов сразу и возвращает картинки по мере готовности,
+   * чтобы первые из них можно было загружать, пока рисуются остальные.
+   */
+  async startBundle(
+    nickname: string,
+    campaign: Campaign,
+    photo?: DecodedImage,
+  ): Promise<PendingBundle> {
+    const layouts = await this.getLayouts(campaign);
+
+    // Лучше отказать сразу, чем выдать картинки с квадратиками вместо букв
+    const unsupported = await this.findUnsupportedCharacters(
+      nickname,
+      campaign,
+    );
+    if (unsupported.length) {
+      throw new UnsupportedCharactersError(unsupported);
+    }
+
+    const bundle: PendingBundle = {};
+    for (const layout of layouts) {
+      const image = this.renderLayout(nickname, layout, campaign, photo);
+      // Картинку могут ждать позже остальных, ее ошибка не должна считаться необработанной
+      image.catch(() => undefined);
+      bundle[layout.name] = image;
+    }
+    return bundle;
+  }
+
+  async createBundle(
+    nickname: string,
+    campaign: Campaign,
+    photo?: DecodedImage,
+  ): Promise<Bundle> {
     try {
-      const avatar = await this.createAvatar(nickname);
-      const coverVk = await this.createCoverVk(nickname);
-      const coverX = await this.createCoverX(nickname);
+      const pending = await this.startBundle(nickname, campaign, photo);
+      const bundle: Bundle = {};
 
-      return {
-        avatar,
-        coverVk,
-        coverX,
-      };
+      for (const [name, image] of Object.entries(pending)) {
+        bundle[name] = await image;
+      }
+
+      return bundle;
     } catch (error) {
       console.error('Error creating bundle:', error);
       throw error;
     }
   }
 
-  private async createAvatar(nickname: string): Promise<Buffer> {
-    const templatePath = path.join(
-      process.cwd(),
-      'src',
-      'assets',
-      'templates',
-      'avatar.png',
+  /**
+   * Файлы архива акции. Без настройки - каждый шаблон в PNG, как раньше.
+   */
+  async getOutputs(campaign: Campaign): Promise<BundleOutput[]> {
+    if (campaign.outputs.length) {
+      return campaign.outputs;
+    }
+
+    const layouts = await this.getLayouts(campaign);
+    return layouts.map((layout) => ({
+      name: layout.name,
+      layout: layout.name,
+      format: 'png',
+    }));
+  }
+
+  /**
+   * Готовит из нарисованных шаблонов все файлы архива в нужных размерах и форматах.
+   */
+  async createOutputs(
+    nickname: string,
+    bundle: Bundle,
+    campaign: Campaign,
+  ): Promise<BundleFile[]> {
+    const layouts = await this.getLayouts(campaign);
+    const outputs = await this.getOutputs(campaign);
+
+    return Promise.all(
+      outputs.map(async (output) => {
+        const layout = layouts.find((item) => item.name === output.layout);
+        if (!layout || !bundle[layout.name]) {
+          throw new Error(
+            `Шаблон ${output.layout} для файла ${output.name} не найден в акции ${campaign.id}`,
+          );
+        }
+
+        const { width, height } = this.getOutputSize(output, layout);
+        const description =
+          output.description ?? layout.description ?? `Шаблон ${layout.name}`;
+
+        return {
+          fileName: `${nickname}_${output.name}.${EXTENSIONS[output.format]}`,
+          data: await this.encodeOutput(bundle[layout.name], output, layout),
+          description: `${description}, ${width}×${height}, ${output.format.toUpperCase()}`,
+        };
+      }),
     );
+  }
 
-    try {
-      await sharp(templatePath).metadata();
-    } catch (error) {
-      console.error(
-        `Ошибка при чтении шаблона аватара: ${templatePath}`,
-        error,
+  async renderOutput(
+    nickname: string,
+    output: BundleOutput,
+    campaign: Campaign,
+  ): Promise<Buffer> {
+    const layouts = await this.getLayouts(campaign);
+    const layout = layouts.find((item) => item.name === output.layout);
+    if (!layout) {
+      throw new Error(
+        `Шаблон ${output.layout} для файла ${output.name} не найден в акции ${campaign.id}`,
       );
-      throw new Error(`Шаблон аватара не найден: ${templatePath}`);
     }
 
-    const width = 1080;
-    const height = 1080;
-    const containerWidth = 840;
+    const image = await this.renderLayout(nickname, layout, campaign);
+    return this.encodeOutput(image, output, layout);
+  }
 
-    // Рассчитываем размер шрифта на основе контейнера, а не всего изображения
-    const fontSize = this.calculateFontSize(nickname, containerWidth, {
-      baseFontRatio: 0.28,
-      minFontRatio: 0.064,
-    });
+  // Если задана только одна сторона, вторая считается по пропорциям шаблона
+  private getOutputSize(
+    output: BundleOutput,
+    layout: TemplateLayout,
+  ): { width: number; height: number } {
+    const { width, height } = output;
+    if (width && height) {
+      return { width, height };
+    }
+    if (width) {
+      return {
+        width,
+        height: Math.round((layout.height * width) / layout.width),
+      };
+    }
+    if (height) {
+      return {
+        width: Math.round((layout.width * height) / layout.height),
+        height,
+      };
+    }
+    return { width: layout.width, height: layout.height };
+  }
 
-    const svgText = `
-      <svg width="${width}" height="${height}">
-        <defs>
-          <style>
-            @font-face {
-              font-family: 'Muller';
-              src: url('${this.FONT_PATH}');
-            }
-            .nickname { 
-              font-family: 'Muller', Arial, sans-serif; 
-              font-size: ${fontSize}px; 
-              font-weight: 800;
-              letter-spacing: -0.04em;
-            }
-          </style>
-        </defs>
-          <text 
-            x="50%"
-            y="50%"
-            text-anchor="middle"
-            alignment-baseline="central"
-            dominant-baseline="central"
-            dy="${fontSize * 0.28}px"
-            class="nickname"
-            fill="${this.TEXT_COLOR}"
-            font-weight="800"
-            letter-spacing="-0.04em"
-          >${nickname}</text>
-      </svg>`;
+  private async encodeOutput(
+    image: Buffer,
+    output: BundleOutput,
+    layout: TemplateLayout,
+  ): Promise<Buffer> {
+    const { width, height } = this.getOutputSize(output, layout);
+    const resized = width !== layout.width || height !== layout.height;
 
-    return await sharp(templatePath)
-      .composite([
-        {
-          input: Buffer.from(svgText),
-          top: 0,
-          left: 0,
-        },
-      ])
-      .png()
-      .toBuffer();
+    // Шаблон в исходном размере уже закодирован в PNG
+    if (output.format === 'png' && !resized) {
+      return image;
+    }
+
+    let pipeline = sharp(image);
+    if (resized) {
+      pipeline = pipeline.resize(width, height, {
+        fit: output.fit ?? 'cover',
+        background: output.background,
+      });
+    }
+
+    switch (output.format) {
+      case 'png':
+        return pipeline.png().toBuffer();
+      case 'webp':
+        return pipeline.webp({ quality: output.quality }).toBuffer();
+      case 'jpeg':
+        // В JPEG нет прозрачности, поэтому заливаем ее цветом фона
+        return pipeline
+          .flatten({ background: output.background ?? '#ffffff' })
+          .jpeg({ quality: output.quality })
+          .toBuffer();
+    }
   }
 
-  private async createCoverVk(nickname: string): Promise<Buffer> {
-    const templatePath = path.join(
-      process.cwd(),
-      'src',
-      'assets',
-      'templates',
-      'cover_vk.png',
-    );
-    const width = 1920;
-    const height = 768;
+  async fitText(
+    nickname: string,
+    layout: TemplateLayout,
+    campaign: Campaign,
+  ): Promise<TextFit> {
+    const fonts = await this.getFontChain(layout, campaign);
+    return this.calculateFontSize(nickname, layout, fonts);
+  }
 
-    // Вычисляем размер шрифта и позицию
-    const fontSize = this.calculateFontSize(nickname, width, {
-      baseFontRatio: 0.12,
-      minFontRatio: 0.05,
-    });
+  /**
+   * Распаковывает фото пользователя один раз на весь бандл. Поворачивает его по EXIF
+   * и уменьшает слишком большие снимки. Не картинка - ошибка sharp.
+   */
+  async decodePhoto(photo: Buffer): Promise<DecodedImage> {
+    return sharp(photo)
+      .rotate()
+      .resize(PHOTO_MAX_SIDE, PHOTO_MAX_SIDE, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+  }
 
-    const yPosition = this.calculateTextPosition(fontSize, {
-      maxY: 410,
-      minY: 360,
-      maxFontSize: 144,
-      minFontSize: 64,
+  // Фото заполняет место целиком: лишнее обрезается со стороны, где меньше деталей
+  private async renderPhoto(
+    photo: DecodedImage,
+    slot: PhotoSlot,
+  ): Promise<DecodedImage> {
+    const { data, info } = photo;
+    const pipeline = sharp(data, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
+    }).resize(slot.width, slot.height, {
+      fit: 'cover',
+      position: sharp.strategy.attention,
     });
 
-    const svgText = `
-       <svg width="${width}" height="${height}">
-        <defs>
-          <style>
-            @font-face {
-              font-family: 'Muller';
-              src: url('${this.FONT_PATH}');
-            }
-            .nickname { 
-              font-family: 'Muller', Arial, sans-serif; 
-              font-size: ${fontSize}px; 
-              font-weight: 800;
-              letter-spacing: -0.04em;
-            }
-          </style>
-        </defs>
-        <text 
-          x="${width - 44}"
-          y="${yPosition}"
-          text-anchor="end"
-          dominant-baseline="text-before-edge"
-          class="nickname"
-          fill="${this.TEXT_COLOR}"
-          font-weight="800"
-          letter-spacing="-0.04em"
-        >${nickname}</text>
-      </svg>`;
+    if (slot.shape !== 'rect') {
+      pipeline.composite([
+        { input: await this.getPhotoMask(slot), blend: 'dest-in' },
+      ]);
+    }
+
+    return pipeline.raw().toBuffer({ resolveWithObject: true });
+  }
 
-    return await sharp(templatePath)
-      .composite([
-        {
-          input: Buffer.from(svgText),
-          top: 0,
-          left: 0,
-        },
-      ])
+  private async getPhotoMask(slot: PhotoSlot): Promise<Buffer> {
+    const { width, height } = slot;
+    if (slot.shape === 'circle') {
+      return Buffer.from(
+        `<svg width="${width}" height="${height}"><ellipse cx="${width / 2}" cy="${height / 2}" rx="${width / 2}" ry="${height / 2}"/></svg>`,
+      );
+    }
+    if (!slot.mask) {
+      throw new Error('Для места под фото с shape: mask не указан файл mask');
+    }
+
+    return sharp(resolveAsset('templates', slot.mask))
+      .resize(width, height, { fit: 'fill' })
       .png()
       .toBuffer();
   }
 
-  private async createCoverX(nickname: string): Promise<Buffer> {
-    const templatePath = path.join(
-      process.cwd(),
-      'src',
-      'assets',
-      'templates',
-      'cover_x.png',
-    );
-    const width = 1920;
-    const height = 640;
+  async renderLayout(
+    nickname: string,
+    layout: TemplateLayout,
+    campaign: Campaign,
+    photo?: DecodedImage,
+  ): Promise<Buffer> {
+    const template = await this.getTemplate(layout);
 
-    // Вычисляем размер шрифта
-    const fontSize = this.calculateFontSize(nickname, width, {
-      baseFontRatio: 0.112,
-      minFontRatio: 0.06,
-    });
-    const yPosition = this.calculateTextPosition(fontSize, {
-      maxY: 500,
-      minY: 490,
-      maxFontSize: 144,
-      minFontSize: 64,
-    });
+    const fonts = await this.getFontChain(layout, campaign);
+    const color = layout.color ?? campaign.textColor;
+    const { width, height } = layout;
+    const { weight } = fonts.primary;
+    const fontFamily = fonts.familyNames
+      .map((family) => `'${this.escapeXml(family)}'`)
+      .join(', ');
+
+    const { fontSize } = this.calculateFontSize(nickname, layout, fonts);
+    const { x, y } = this.calculateTextPosition(fontSize, layout, fonts);
 
     const svgText = `
       <svg width="${width}" height="${height}">
         <defs>
           <style>
-            @font-face {
-              font-family: 'Muller';
-              src: url('${this.FONT_PATH}');
-            }
-            .nickname { 
-              font-family: 'Muller', Arial, sans-serif; 
-              font-size: ${fontSize}px; 
-              font-weight: 800;
-              letter-spacing: -0.04em;
+            .nickname {
+              font-family: ${fontFamily};
+              font-size: ${fontSize}px;
+              font-weight: ${weight};
+              letter-spacing: ${layout.letterSpacing}em;
             }
           </style>
         </defs>
-        <text 
-          x="${width - 96}"
-          y="${yPosition}"
-          text-anchor="end"
-          dominant-baseline="text-after-edge"
+        <text
+          x="${x}"
+          y="${y}"
+          text-anchor="${layout.anchor}"
           class="nickname"
-          fill="${this.TEXT_COLOR}"
-          font-weight="800"
-          letter-spacing="-0.04em"
-        >${nickname}</text>
+          fill="${this.escapeXml(color)}"
+          font-weight="${weight}"
+          letter-spacing="${layout.letterSpacing}em"
+        >${this.escapeXml(nickname)}</text>
       </svg>`;
 
-    return await sharp(templatePath)
-      .composite([
-        {
-          input: Buffer.from(svgText),
-          top: 0,
-          left: 0,
-        },
-      ])
+    const { data, info } = template;
+    const raw = {
+      width: info.width,
+      height: info.height,
+      channels: info.channels,
+    };
+    const text: sharp.OverlayOptions = {
+      input: Buffer.from(svgText),
+      top: 0,
+      left: 0,
+    };
+
+    if (!photo || !layout.photo) {
+      return await sharp(data, { raw }).composite([text]).png().toBuffer();
+    }
+
+    const slot = layout.photo;
+    const layer = await this.renderPhoto(photo, slot);
+    const photoLayer: sharp.OverlayOptions = {
+      input: layer.data,
+      raw: {
+        width: layer.info.width,
+        height: layer.info.height,
+        channels: layer.info.channels,
+      },
+      top: slot.y,
+      left: slot.x,
+    };
+
+    if (slot.placement === 'over') {
+      return await sharp(data, { raw })
+        .composite([photoLayer, text])
+        .png()
+        .toBuffer();
+    }
+
+    // Под шаблоном: фото на прозрачном холсте, сверху шаблон и ник
+    return await sharp({
+      create: {
+        width: info.width,
+        height: info.height,
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    })
+      .composite([photoLayer, { input: data, raw }, text])
       .png()
       .toBuffer();
   }
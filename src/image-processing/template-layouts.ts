@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TemplateLayout, TextBox } from '../types/template-layout.type';
+
+const ANCHORS = ['start', 'middle', 'end'];
+const BASELINES = ['top', 'middle', 'bottom'];
+const REPLIES = ['first', 'second'];
+const PHOTO_SHAPES = ['rect', 'circle', 'mask'];
+const PHOTO_PLACEMENTS = ['under', 'over'];
+
+// Путь из акции может быть абсолютным или относительным к src/assets/<dir>
+export function resolveAsset(
+  dir: 'templates' | 'fonts' | 'layouts',
+  file: string,
+): string {
+  return path.isAbsolute(file)
+    ? file
+    : path.join(process.cwd(), 'src', 'assets', dir, file);
+}
+
+/**
+ * Читает описание шаблонов акции и проверяет его, чтобы опечатка в файле
+ * находилась при загрузке акций, а не в каждой задаче очереди.
+ */
+export async function loadLayouts(file: string): Promise<TemplateLayout[]> {
+  const layoutsPath = resolveAsset('layouts', file);
+
+  let layouts: TemplateLayout[];
+  try {
+    layouts = JSON.parse(await fs.readFile(layoutsPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Не удалось прочитать шаблоны из ${layoutsPath}: ${error.message}`,
+    );
+  }
+
+  if (!Array.isArray(layouts) || !layouts.length) {
+    throw new Error(
+      `Файл шаблонов ${layoutsPath} должен содержать непустой массив`,
+    );
+  }
+
+  const names = new Set<string>();
+  for (const layout of layouts) {
+    const problem = checkLayout(layout, names);
+    if (problem) {
+      throw new Error(
+        `Некорректный шаблон ${layout?.name ?? ''} в ${layoutsPath}: ${problem}`,
+      );
+    }
+    names.add(layout.name);
+  }
+
+  return layouts;
+}
+
+function checkLayout(
+  layout: TemplateLayout,
+  names: Set<string>,
+): string | undefined {
+  const isSize = (value: unknown) =>
+    Number.isInteger(value) && Number(value) > 0;
+  const isBox = (box?: TextBox) =>
+    !!box &&
+    Number.isFinite(box.x) &&
+    Number.isFinite(box.y) &&
+    isSize(box.width) &&
+    isSize(box.height);
+
+  if (typeof layout !== 'object' || layout === null) {
+    return 'описание шаблона должно быть объектом';
+  }
+  if (!layout.name || names.has(layout.name)) {
+    return 'имя шаблона пустое или повторяется';
+  }
+  if (!layout.template) {
+    return 'не указан файл фона';
+  }
+  if (!isSize(layout.width) || !isSize(layout.height)) {
+    return 'ширина и высота должны быть целыми положительными числами';
+  }
+  if (!isBox(layout.textBox)) {
+    return 'textBox должен задавать x, y, width и height';
+  }
+  if (!ANCHORS.includes(layout.anchor)) {
+    return `anchor должен быть одним из ${ANCHORS.join(', ')}`;
+  }
+  if (!BASELINES.includes(layout.baseline)) {
+    return `baseline должен быть одним из ${BASELINES.join(', ')}`;
+  }
+  if (
+    !isSize(layout.fontSize?.min) ||
+    !isSize(layout.fontSize?.max) ||
+    layout.fontSize.min > layout.fontSize.max
+  ) {
+    return 'fontSize должен задавать min и max, min не больше max';
+  }
+  if (!Number.isFinite(layout.letterSpacing)) {
+    return 'letterSpacing должен быть числом';
+  }
+  if (!REPLIES.includes(layout.reply)) {
+    return `reply должен быть одним из ${REPLIES.join(', ')}`;
+  }
+  if (
+    layout.photo &&
+    (!isBox(layout.photo) ||
+      !PHOTO_SHAPES.includes(layout.photo.shape) ||
+      !PHOTO_PLACEMENTS.includes(layout.photo.placement) ||
+      (layout.photo.shape === 'mask' && !layout.photo.mask))
+  ) {
+    return 'photo должен задавать прямоугольник, shape, placement и mask для shape: mask';
+  }
+  return undefined;
+}
@@ -0,0 +1,8 @@
+export class UnsupportedCharactersError extends Error {
+  constructor(readonly characters: string[]) {
+    super(
+      `Символы не поддерживаются шрифтами шаблона: ${characters.join(' ')}`,
+    );
+    this.name = 'UnsupportedCharactersError';
+  }
+}
@@ -0,0 +1,69 @@
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(() => {
+    service = new MetricsService();
+  });
+
+  it('should count by labels', () => {
+    service.increment('bot_comments_total');
+    service.increment('bot_comments_total');
+    service.increment('bot_nicknames_rejected_total', { reason: 'invalid' });
+    service.increment('bot_nicknames_rejected_total', {
+      reason: 'daily-limit',
+    });
+    service.increment('bot_nicknames_rejected_total', { reason: 'invalid' });
+
+    const text = service.render();
+    expect(text).toContain(
+      '# HELP bot_comments_total Комментарии под постами, полученные ботом\n' +
+        '# TYPE bot_comments_total counter\n' +
+        'bot_comments_total 2\n',
+    );
+    expect(text).toContain(
+      'bot_nicknames_rejected_total{reason="invalid"} 2\n' +
+        'bot_nicknames_rejected_total{reason="daily-limit"} 1\n',
+    );
+  });
+
+  it('should keep cumulative histogram buckets', () => {
+    service.observe('bot_render_duration_seconds', 0.07, { layout: 'avatar' });
+    service.observe('bot_render_duration_seconds', 0.3, { layout: 'avatar' });
+    service.observe('bot_render_duration_seconds', 42, { layout: 'avatar' });
+
+    const lines = service
+      .render()
+      .split('\n')
+      .filter((line) => line.startsWith('bot_render_duration_seconds'));
+    expect(lines).toEqual([
+      'bot_render_duration_seconds_bucket{layout="avatar",le="0.05"} 0',
+      'bot_render_duration_seconds_bucket{layout="avatar",le="0.1"} 1',
+      'bot_render_duration_seconds_bucket{layout="avatar",le="0.25"} 1',
+      'bot_render_duration_seconds_bucket{layout="avatar",le="0.5"} 2',
+      'bot_render_duration_seconds_bucket{layout="avatar",le="1"} 2',
+      'bot_render_duration_seconds_bucket{layout="avatar",le="2.5"} 2',
+      'bot_render_duration_seconds_bucket{layout="avatar",le="5"} 2',
+      'bot_render_duration_seconds_bucket{layout="avatar",le="10"} 2',
+      'bot_render_duration_seconds_bucket{layout="avatar",le="+Inf"} 3',
+      'bot_render_duration_seconds_sum{layout="avatar"} 42.37',
+      'bot_render_duration_seconds_count{layout="avatar"} 3',
+    ]);
+  });
+
+  it('should escape label values and append collected metrics', () => {
+    service.increment('bot_nicknames_rejected_total', { reason: 'a"b\\c' });
+
+    const text = service.render([
+      {
+        name: 'bot_queue_jobs',
+        help: 'Задачи в очереди',
+        type: 'gauge',
+        samples: [{ labels: { status: 'pending' }, value: 3 }],
+      },
+    ]);
+    expect(text).toContain('{reason="a\\"b\\\\c"} 1');
+    expect(text.endsWith('bot_queue_jobs{status="pending"} 3\n')).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import {
+  MetricFamily,
+  MetricLabels,
+  MetricSample,
+} from '../types/metrics.type';
+
+const COUNTERS = {
+  bot_comments_total: 'Комментарии под постами, полученные ботом',
+  bot_messages_total: 'Личные сообщения сообществу, полученные ботом',
+  bot_nicknames_extracted_total: 'Найденные ники по источнику',
+  bot_nicknames_rejected_total: 'Запросы, отклоненные до рендера, по причинам',
+  bot_bundles_total: 'Бандлы: нарисованные заново или взятые из кэша',
+};
+
+// Границы корзин в секундах
+const HISTOGRAMS = {
+  bot_render_duration_seconds: {
+    help: 'Время рендера одного шаблона',
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  },
+  bot_upload_duration_seconds: {
+    help: 'Время загрузки одного файла в VK, включая ожидание лимитов',
+    buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  },
+};
+
+export type CounterName = keyof typeof COUNTERS;
+export type HistogramName = keyof typeof HISTOGRAMS;
+
+interface Histogram {
+  labels: MetricLabels;
+  // Накопительные счетчики по корзинам, как их отдает Prometheus
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Счетчики и гистограммы бота в памяти процесса. После рестарта начинаются
+ * с нуля - Prometheus это понимает по сбросу counter.
+ */
+@Injectable()
+export class MetricsService {
+  #counters = new Map<CounterName, Map<string, MetricSample>>();
+  #histograms = new Map<HistogramName, Map<string, Histogram>>();
+
+  increment(name: CounterName, labels: MetricLabels = {}, value = 1): void {
+    let samples = this.#counters.get(name);
+    if (!samples) {
+      samples = new Map();
+      this.#counters.set(name, samples);
+    }
+
+    const key = this.#labelsKey(labels);
+    const sample = samples.get(key) ?? { labels, value: 0 };
+    sample.value += value;
+    samples.set(key, sample);
+  }
+
+  observe(
+    name: HistogramName,
+    seconds: number,
+    labels: MetricLabels = {},
+  ): void {
+    let series = this.#histograms.get(name);
+    if (!series) {
+      series = new Map();
+      this.#histograms.set(name, series);
+    }
+
+    const { buckets } = HISTOGRAMS[name];
+    const key = this.#labelsKey(labels);
+    const histogram = series.get(key) ?? {
+      labels,
+      buckets: buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    buckets.forEach((bound, index) => {
+      if (seconds <= bound) {
+        histogram.buckets[index]++;
+      }
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+    series.set(key, histogram);
+  }
+
+  /**
+   * Засекает время; вызов возвращенной функции записывает его в гистограмму.
+   */
+  startTimer(name: HistogramName, labels: MetricLabels = {}): () => void {
+    const startedAt = performance.now();
+    return () =>
+      this.observe(name, (performance.now() - startedAt) / 1000, labels);
+  }
+
+  /**
+   * Все метрики в текстовом формате Prometheus. extra - значения, которые
+   * снимаются в момент запроса: очередь, счетчики запросов к VK.
+   */
+  render(extra: MetricFamily[] = []): string {
+    const families: MetricFamily[] = [
+      ...Object.entries(COUNTERS).map(([name, help]) => ({
+        name,
+        help,
+        type: 'counter' as const,
+        samples: [...(this.#counters.get(name as CounterName)?.values() ?? [])],
+      })),
+      ...Object.entries(HISTOGRAMS).map(([name, { help, buckets }]) => ({
+        name,
+        help,
+        type: 'histogram' as const,
+        samples: [
+          ...(this.#histograms.get(name as HistogramName)?.values() ?? []),
+        ].flatMap((histogram) => this.#histogramSamples(histogram, buckets)),
+      })),
+      ...extra,
+    ];
+
+    return families.map((family) => this.#renderFamily(family)).join('');
+  }
+
+  #histogramSamples = (
+    { labels, buckets: counts, sum, count }: Histogram,
+    buckets: number[],
+  ): MetricSample[] => [
+    ...buckets.map((bound, index) => ({
+      suffix: '_bucket',
+      labels: { ...labels, le: String(bound) },
+      value: counts[index],
+    })),
+    { suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: count },
+    { suffix: '_sum', labels, value: sum },
+    { suffix: '_count', labels, value: count },
+  ];
+
+  #renderFamily = ({ name, help, type, samples }: MetricFamily): string => {
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+    for (const { suffix = '', labels, value } of samples) {
+      lines.push(`${name}${suffix}${this.#renderLabels(labels)} ${value}`);
+    }
+    return `${lines.join('\n')}\n`;
+  };
+
+  #renderLabels = (labels: MetricLabels): string => {
+    const pairs = Object.entries(labels).map(
+      ([name, value]) =>
+        `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+    );
+    return pairs.length ? `{${pairs.join(',')}}` : '';
+  };
+
+  #labelsKey = (labels: MetricLabels): string => {
+    return JSON.stringify(Object.entries(labels).sort());
+  };
+}
@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { ConfigService } from '@nestjs/config';
+import { ModerationController } from './moderation.controller';
+import { ModerationService } from './moderation.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { NicknameService } from '../nickname/nickname.service';
+
+describe('ModerationController', () => {
+  let app: INestApplication<App>;
+  let moderation: Record<string, jest.Mock>;
+
+  const createApp = async (config: Record<string, string>) => {
+    moderation = {
+      getPending: jest
+        .fn()
+        .mockResolvedValue([{ id: '1', job: { campaignId: 'main' } }]),
+      getAudit: jest.fn().mockResolvedValue([]),
+      decide: jest.fn((id: string) =>
+        Promise.resolve(id === '1' ? { id } : undefined),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ModerationController],
+      providers: [
+        { provide: ConfigService, useValue: new ConfigService(config) },
+        { provide: ModerationService, useValue: moderation },
+        {
+          provide: CampaignsService,
+          useValue: {
+            getById: () => ({
+              id: 'main',
+              nickname: {
+                patterns: [],
+                minLength: 1,
+                maxLength: 8,
+                alphabets: [],
+                bannedWords: [],
+                letterCase: 'keep',
+              },
+            }),
+          },
+        },
+        NicknameService,
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+  };
+
+  beforeEach(async () => {
+    await createApp({ ADMIN_TOKEN: 'token' });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should require the admin token', async () => {
+    await request(app.getHttpServer()).get('/admin/moderation').expect(401);
+    await request(app.getHttpServer())
+      .get('/admin/moderation')
+      .set('Authorization', 'Bearer wrong')
+      .expect(401);
+    await request(app.getHttpServer())
+      .get('/admin/moderation')
+      .set('Authorization', 'Bearer token')
+      .expect(200)
+      .expect([{ id: '1', job: { campaignId: 'main' } }]);
+  });
+
+  it('should be disabled without ADMIN_TOKEN', async () => {
+    await app.close();
+    await createApp({});
+
+    await request(app.getHttpServer())
+      .get('/admin/moderation')
+      .set('Authorization', 'Bearer ')
+      .expect(404);
+  });
+
+  it('should pass decisions to the service', async () => {
+    await request(app.getHttpServer())
+      .post('/admin/moderation/1/edit')
+      .set('Authorization', 'Bearer token')
+      .send({ nickname: ' Trinity ' })
+      .expect(200);
+    await request(app.getHttpServer())
+      .post('/admin/moderation/2/approve')
+      .set('Authorization', 'Bearer token')
+      .expect(404);
+    await request(app.getHttpServer())
+      .post('/admin/moderation/1/edit')
+      .set('Authorization', 'Bearer token')
+      .send({})
+      .expect(400);
+
+    expect(moderation.decide).toHaveBeenCalledWith(
+      '1',
+      { action: 'edit', nickname: 'Trinity' },
+      'http',
+    );
+  });
+
+  it('should clean and check the edited nickname', async () => {
+    await request(app.getHttpServer())
+      .post('/admin/moderation/1/edit')
+      .set('Authorization', 'Bearer token')
+      .send({ nickname: '../Neo\u0007' })
+      .expect(200);
+    expect(moderation.decide).toHaveBeenLastCalledWith(
+      '1',
+      { action: 'edit', nickname: '..Neo' },
+      'http',
+    );
+
+    const tooLong = await request(app.getHttpServer())
+      .post('/admin/moderation/1/edit')
+      .set('Authorization', 'Bearer token')
+      .send({ nickname: 'TheQuickBrownFox' })
+      .expect(400);
+    expect(tooLong.body.message).toContain('too-long');
+
+    for (const nickname of [['Neo', 'Trinity'], 42, '/\\']) {
+      await request(app.getHttpServer())
+        .post('/admin/moderation/1/edit')
+        .set('Authorization', 'Bearer token')
+        .send({ nickname })
+        .expect(400);
+    }
+    expect(moderation.decide).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+import { ModerationService } from './moderation.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { NicknameService } from '../nickname/nickname.service';
+import {
+  AuditRecord,
+  ModerationAction,
+  ModerationEntry,
+} from '../types/moderation.type';
+
+interface EditRequest {
+  nickname?: unknown;
+}
+
+@Controller('admin/moderation')
+@UseGuards(AdminTokenGuard)
+export class ModerationController {
+  constructor(
+    private readonly moderationService: ModerationService,
+    private readonly campaignsService: CampaignsService,
+    private readonly nicknameService: NicknameService,
+  ) {}
+
+  @Get()
+  getPending(): Promise<ModerationEntry[]> {
+    return this.moderationService.getPending();
+  }
+
+  @Get('audit')
+  getAudit(): Promise<AuditRecord[]> {
+    return this.moderationService.getAudit();
+  }
+
+  @Post(':id/approve')
+  @HttpCode(200)
+  approve(@Param('id') id: string): Promise<ModerationEntry> {
+    return this.#decide(id, 'approve');
+  }
+
+  @Post(':id/reject')
+  @HttpCode(200)
+  reject(@Param('id') id: string): Promise<ModerationEntry> {
+    return this.#decide(id, 'reject');
+  }
+
+  @Post(':id/edit')
+  @HttpCode(200)
+  async edit(
+    @Param('id') id: string,
+    @Body() body: EditRequest,
+  ): Promise<ModerationEntry> {
+    if (typeof body?.nickname !== 'string') {
+      throw new BadRequestException('nickname должен быть строкой');
+    }
+    const nickname = this.nicknameService.sanitize(body.nickname);
+    if (!nickname) {
+      throw new BadRequestException('Не указан nickname');
+    }
+
+    // Исправленный ник попадает в имена файлов, поэтому проверяем его по правилам акции заявки
+    const entry = (await this.moderationService.getPending()).find(
+      (item) => item.id === id,
+    );
+    const campaign =
+      entry && this.campaignsService.getById(entry.job.campaignId);
+    if (!campaign) {
+      return this.#decide(id, 'edit', nickname);
+    }
+    const check = this.nicknameService.validate(nickname, campaign.nickname);
+    if (!check.valid) {
+      throw new BadRequestException(
+        `Ник не прошел проверку акции ${campaign.id}: ${check.reason}`,
+      );
+    }
+    return this.#decide(id, 'edit', check.nickname);
+  }
+
+  #decide = async (
+    id: string,
+    action: ModerationAction,
+    nickname?: string,
+  ): Promise<ModerationEntry> => {
+    const entry = await this.moderationService.decide(
+      id,
+      { action, nickname },
+      'http',
+    );
+    if (!entry) {
+      throw new NotFoundException(
+        `Заявка ${id} не найдена или уже рассмотрена`,
+      );
+    }
+    return entry;
+  };
+}
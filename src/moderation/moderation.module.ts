@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ModerationService } from './moderation.service';
+import { ModerationController } from './moderation.controller';
+import { StorageModule } from '../storage/storage.module';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { NicknameModule } from '../nickname/nickname.module';
+
+@Module({
+  imports: [StorageModule, CampaignsModule, NicknameModule],
+  controllers: [ModerationController],
+  providers: [ModerationService],
+  exports: [ModerationService],
+})
+export class ModerationModule {}
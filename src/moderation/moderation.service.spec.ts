@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ModerationService } from './moderation.service';
+import { StorageService } from '../storage/storage.service';
+import { BundleJob } from '../types/bundle-job.type';
+import { ModerationRules } from '../types/campaign.type';
+
+describe('ModerationService', () => {
+  let service: ModerationService;
+  let audit: unknown[];
+
+  const rules: ModerationRules = {
+    blocklist: ['админ'],
+    holdMixedScripts: true,
+    holdLinks: true,
+  };
+
+  const job: BundleJob = {
+    campaignId: 'default',
+    ownerId: -1,
+    postId: 10,
+    commentId: 5,
+    fromId: 7,
+    nickname: 'Neo',
+  };
+
+  beforeEach(async () => {
+    audit = [];
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ModerationService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ ADMIN_IDS: '100, 200,abc' }),
+        },
+        {
+          provide: StorageService,
+          useValue: {
+            read: (_name: string, fallback: unknown) =>
+              Promise.resolve(fallback),
+            write: () => Promise.resolve(),
+            append: (_name: string, record: unknown) => {
+              audit.push(record);
+              return Promise.resolve();
+            },
+            readLines: () => Promise.resolve(audit),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ModerationService>(ModerationService);
+  });
+
+  it('should read administrators from ADMIN_IDS', () => {
+    expect(service.adminIds).toEqual([100, 200]);
+    expect(service.isAdmin(200)).toBe(true);
+    expect(service.isAdmin(7)).toBe(false);
+  });
+
+  it('should flag blocklisted words, mixed scripts and links', () => {
+    expect(service.check('Neo', rules)).toEqual([]);
+    expect(service.check('Главный Админ', rules)).toEqual(['blocklist']);
+    // Первая "а" в слове кириллическая
+    expect(service.check('Аdmin', rules)).toEqual(['mixed-scripts']);
+    expect(service.check('neo.ru', rules)).toEqual(['link']);
+    expect(service.check('Mr.Smith', rules)).toEqual([]);
+    expect(service.check('neo.ru', { ...rules, holdLinks: false })).toEqual([]);
+  });
+
+  it('should hold a request once and record it in the audit log', async () => {
+    const first = await service.hold('-1_5', job, ['blocklist']);
+    const second = await service.hold('-1_5', job, ['blocklist']);
+
+    expect(first).toMatchObject({ created: true, entry: { id: '1' } });
+    expect(second).toMatchObject({ created: false, entry: { id: '1' } });
+    await expect(service.getPending()).resolves.toHaveLength(1);
+    await expect(service.getAudit()).resolves.toEqual([
+      expect.objectContaining({
+        entryId: '1',
+        action: 'hold',
+        actor: 'system',
+        nickname: 'Neo',
+        reasons: ['blocklist'],
+      }),
+    ]);
+  });
+
+  it('should apply a decision once and notify handlers', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    service.onDecision(handler);
+    await service.hold('-1_5', job, ['link']);
+
+    await expect(
+      service.decide('1', { action: 'edit', nickname: 'Trinity' }, 'vk:100'),
+    ).resolves.toMatchObject({ id: '1' });
+    await expect(
+      service.decide('1', { action: 'approve' }, 'http'),
+    ).resolves.toBeUndefined();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ job }), {
+      action: 'edit',
+      nickname: 'Trinity',
+    });
+    await expect(service.getPending()).resolves.toEqual([]);
+    expect(audit[1]).toMatchObject({
+      action: 'edit',
+      actor: 'vk:100',
+      nickname: 'Neo',
+      newNickname: 'Trinity',
+    });
+  });
+
+  it('should keep the entry when a handler fails', async () => {
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('VK недоступен'))
+      .mockResolvedValue(undefined);
+    service.onDecision(handler);
+    await service.hold('-1_5', job, ['link']);
+
+    await expect(
+      service.decide('1', { action: 'approve' }, 'http'),
+    ).rejects.toThrow('VK недоступен');
+    await expect(service.getPending()).resolves.toHaveLength(1);
+    expect(audit).toHaveLength(1);
+
+    await expect(
+      service.decide('1', { action: 'approve' }, 'http'),
+    ).resolves.toMatchObject({ id: '1' });
+    await expect(service.getPending()).resolves.toEqual([]);
+    expect(audit[1]).toMatchObject({ action: 'approve', actor: 'http' });
+  });
+
+  it('should not apply a second decision while the first one runs', async () => {
+    let finish: () => void = () => undefined;
+    const handler = jest.fn(
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+    service.onDecision(handler);
+    await service.hold('-1_5', job, ['link']);
+
+    const first = service.decide('1', { action: 'approve' }, 'vk:100');
+    await expect(
+      service.decide('1', { action: 'reject' }, 'vk:200'),
+    ).resolves.toBeUndefined();
+    finish();
+
+    await expect(first).resolves.toMatchObject({ id: '1' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService } from '../storage/storage.service';
+import { BundleJob } from '../types/bundle-job.type';
+import { ModerationRules } from '../types/campaign.type';
+import {
+  AuditRecord,
+  ModerationDecision,
+  ModerationEntry,
+  ModerationReason,
+} from '../types/moderation.type';
+
+const MODERATION_FILE = 'moderation.json';
+const AUDIT_FILE = 'audit.jsonl';
+
+// Ссылки и упоминания: по ним легко выдать себя за сообщество или прорекламировать чужое
+const LINK_PATTERN =
+  /https?:|www\.|@\w|\.(?:ru|рф|com|net|org|su|me|io|gg|tv|xyz|info|cc)(?![\p{L}\d])/iu;
+
+interface ModerationState {
+  lastId: number;
+  pending: ModerationEntry[];
+}
+
+export type DecisionHandler = (
+  entry: ModerationEntry,
+  decision: ModerationDecision,
+) => Promise<void>;
+
+@Injectable()
+export class ModerationService {
+  #storage: StorageService;
+  #state?: Promise<ModerationState>;
+  #adminIds: number[];
+  #decisionHandlers: DecisionHandler[] = [];
+  // Заявки, по которым сейчас работают обработчики решения
+  #deciding = new Set<string>();
+
+  constructor(configService: ConfigService, storage: StorageService) {
+    this.#storage = storage;
+    // Кому из VK писать о новых заявках и чьи команды /approve, /reject, /edit принимать
+    this.#adminIds = (configService.get<string>('ADMIN_IDS') ?? '')
+      .split(',')
+      .map((id) => Number(id.trim()))
+      .filter((id) => Number.isInteger(id) && id > 0);
+  }
+
+  get adminIds(): number[] {
+    return this.#adminIds;
+  }
+
+  isAdmin(userId: number): boolean {
+    return this.#adminIds.includes(userId);
+  }
+
+  /**
+   * Причины отправить ник на проверку. Пустой список - можно рисовать сразу.
+   */
+  check(nickname: string, rules: ModerationRules): ModerationReason[] {
+    const reasons: ModerationReason[] = [];
+    const lower = nickname.toLowerCase();
+
+    if (rules.blocklist.some((word) => lower.includes(word.toLowerCase()))) {
+      reasons.push('blocklist');
+    }
+    if (
+      rules.holdMixedScripts &&
+      nickname
+        .split(/\s+/)
+        .some(
+          (word) =>
+            /\p{Script=Latin}/u.test(word) && /\p{Script=Cyrillic}/u.test(word),
+        )
+    ) {
+      reasons.push('mixed-scripts');
+    }
+    if (rules.holdLinks && LINK_PATTERN.test(nickname)) {
+      reasons.push('link');
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Откладывает запрос до решения администратора. created=false, если заявка
+   * на этот запрос уже есть.
+   */
+  async hold(
+    requestKey: string,
+    job: BundleJob,
+    reasons: ModerationReason[],
+  ): Promise<{ entry: ModerationEntry; created: boolean }> {
+    const state = await this.#load();
+
+    const existing = state.pending.find(
+      (entry) => entry.requestKey === requestKey,
+    );
+    if (existing) {
+      return { entry: existing, created: false };
+    }
+
+    const entry: ModerationEntry = {
+      id: String(++state.lastId),
+      requestKey,
+      job,
+      reasons,
+      createdAt: Date.now(),
+    };
+    state.pending.push(entry);
+    await this.#save(state);
+    await this.#audit({
+      entryId: entry.id,
+      action: 'hold',
+      actor: 'system',
+      userId: job.fromId,
+      nickname: job.nickname,
+      reasons,
+    });
+
+    return { entry, created: true };
+  }
+
+  async getPending(): Promise<ModerationEntry[]> {
+    return (await this.#load()).pending;
+  }
+
+  /**
+   * Применяет решение администратора. Возвращает undefined, если заявки уже нет
+   * или по ней уже принимается решение. Если обработчик упал, заявка остается
+   * в очереди и решение можно принять повторно.
+   */
+  async decide(
+    id: string,
+    decision: ModerationDecision,
+    actor: string,
+  ): Promise<ModerationEntry | undefined> {
+    const state = await this.#load();
+    const entry = state.pending.find((item) => item.id === id);
+    // Пока работают обработчики, второе решение по той же заявке не принимаем
+    if (!entry || this.#deciding.has(id)) {
+      return undefined;
+    }
+
+    this.#deciding.add(id);
+    try {
+      for (const handler of this.#decisionHandlers) {
+        await handler(entry, decision);
+      }
+    } finally {
+      this.#deciding.delete(id);
+    }
+
+    // Заявку убираем только после обработчиков: иначе при их ошибке она пропала бы вместе с запросом
+    state.pending = state.pending.filter((item) => item !== entry);
+    await this.#save(state);
+    await this.#audit({
+      entryId: entry.id,
+      action: decision.action,
+      actor,
+      userId: entry.job.fromId,
+      nickname: entry.job.nickname,
+      newNickname: decision.nickname,
+    });
+    return entry;
+  }
+
+  onDecision(handler: DecisionHandler): void {
+    this.#decisionHandlers.push(handler);
+  }
+
+  async getAudit(): Promise<AuditRecord[]> {
+    return this.#storage.readLines<AuditRecord>(AUDIT_FILE);
+  }
+
+  #audit = (record: Omit<AuditRecord, 'at'>): Promise<void> => {
+    return this.#storage.append<AuditRecord>(AUDIT_FILE, {
+      at: Date.now(),
+      ...record,
+    });
+  };
+
+  #load = (): Promise<ModerationState> => {
+    this.#state ??= this.#storage.read<ModerationState>(MODERATION_FILE, {
+      lastId: 0,
+      pending: [],
+    });
+    return this.#state;
+  };
+
+  #save = (state: ModerationState): Promise<void> => {
+    return this.#storage.write(MODERATION_FILE, state);
+  };
+}
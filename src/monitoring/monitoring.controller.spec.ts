@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { MonitoringController } from './monitoring.controller';
+import { VkGateway } from '../vk/vk-gateway';
+import { FakeVkGateway } from '../vk/fake-vk.gateway';
+import { VkRequestScheduler } from '../vk/vk-request-scheduler';
+import { QueueService } from '../queue/queue.service';
+import { MetricsService } from '../metrics/metrics.service';
+
+describe('MonitoringController', () => {
+  let app: INestApplication<App>;
+  let gateway: FakeVkGateway;
+  let scheduler: VkRequestScheduler;
+  let metrics: MetricsService;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    gateway = new FakeVkGateway();
+    scheduler = new VkRequestScheduler(
+      new ConfigService({ VK_RETRY_ATTEMPTS: '1' }),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MonitoringController],
+      providers: [
+        MetricsService,
+        { provide: VkGateway, useValue: gateway },
+        { provide: VkRequestScheduler, useValue: scheduler },
+        {
+          provide: QueueService,
+          useValue: {
+            find: jest
+              .fn()
+              .mockResolvedValue([
+                { status: 'pending' },
+                { status: 'pending' },
+                { status: 'done' },
+              ]),
+          },
+        },
+      ],
+    }).compile();
+    metrics = module.get(MetricsService);
+
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should report a healthy bot', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/health')
+      .expect(200);
+
+    expect(response.body).toEqual({
+      status: 'ok',
+      vk: {
+        transport: 'fake',
+        receiving: true,
+        tokens: { group: { valid: true }, user: { valid: true } },
+      },
+      queue: { pending: 2, processing: 0, done: 1, failed: 0 },
+    });
+  });
+
+  it('should answer 503 when events stop or a token is revoked', async () => {
+    gateway.health.tokens.user = {
+      valid: false,
+      error: 'User authorization failed',
+    };
+
+    const response = await request(app.getHttpServer())
+      .get('/health')
+      .expect(503);
+    expect(response.body.status).toBe('error');
+    expect(response.body.vk.tokens.user.error).toBe(
+      'User authorization failed',
+    );
+
+    gateway.health.tokens.user = { valid: true };
+    gateway.health.receiving = false;
+    await request(app.getHttpServer()).get('/health').expect(503);
+  });
+
+  it('should expose bot, queue and VK API metrics', async () => {
+    metrics.increment('bot_comments_total');
+    await scheduler.run('group', 'messages.send', () => Promise.resolve(1));
+    await expect(
+      scheduler.run('user', 'wall.createComment', () =>
+        Promise.reject(Object.assign(new Error('Flood control'), { code: 9 })),
+      ),
+    ).rejects.toThrow('Flood control');
+
+    const response = await request(app.getHttpServer())
+      .get('/metrics')
+      .expect(200)
+      .expect('Content-Type', /^text\/plain;.*version=0\.0\.4/);
+
+    expect(response.text).toContain('bot_comments_total 1\n');
+    expect(response.text).toContain(
+      'vk_api_requests_total{method="messages.send"} 1\n',
+    );
+    expect(response.text).toContain('vk_api_errors_total{code="9"} 1\n');
+    expect(response.text).toContain('vk_api_failed_total 1\n');
+    expect(response.text).toContain('bot_queue_jobs{status="pending"} 2\n');
+  });
+});
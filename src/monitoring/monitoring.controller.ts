@@ -0,0 +1,116 @@
+import { Controller, Get, Header, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { GatewayHealth, VkGateway } from '../vk/vk-gateway';
+import { VkRequestScheduler } from '../vk/vk-request-scheduler';
+import { QueueService } from '../queue/queue.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { JobStatus } from '../types/job.type';
+import { MetricFamily } from '../types/metrics.type';
+
+// disabled - токены не заданы и приложение работает только для превью
+type HealthStatus = 'ok' | 'error' | 'disabled';
+
+interface HealthReport {
+  status: HealthStatus;
+  vk: GatewayHealth;
+  queue: Record<JobStatus, number>;
+}
+
+@Controller()
+export class MonitoringController {
+  constructor(
+    private readonly vkGateway: VkGateway,
+    private readonly scheduler: VkRequestScheduler,
+    private readonly queueService: QueueService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  // Мониторинг и балансировщик смотрят на код ответа: 503, если бот не получает события
+  @Get('health')
+  async getHealth(
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<HealthReport> {
+    const vk = await this.vkGateway.checkHealth();
+    const queue = await this.#countJobs();
+
+    let status: HealthStatus = 'disabled';
+    if (this.vkGateway.enabled) {
+      const tokensValid = Object.values(vk.tokens).every(
+        (token) => token.valid,
+      );
+      status = vk.receiving && tokensValid ? 'ok' : 'error';
+    }
+
+    response.status(status === 'error' ? 503 : 200);
+    return { status, vk, queue };
+  }
+
+  @Get('metrics')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  async getMetrics(): Promise<string> {
+    const queue = await this.#countJobs();
+
+    return this.metricsService.render([
+      ...this.#vkApiMetrics(),
+      {
+        name: 'bot_queue_jobs',
+        help: 'Задачи в очереди по статусам',
+        type: 'gauge',
+        samples: Object.entries(queue).map(([status, value]) => ({
+          labels: { status },
+          value,
+        })),
+      },
+    ]);
+  }
+
+  #countJobs = async (): Promise<Record<JobStatus, number>> => {
+    const counts = { pending: 0, processing: 0, done: 0, failed: 0 };
+    for (const job of await this.queueService.find(() => true)) {
+      counts[job.status]++;
+    }
+    return counts;
+  };
+
+  // Счетчики VkRequestScheduler в терминах Prometheus
+  #vkApiMetrics = (): MetricFamily[] => {
+    const metrics = this.scheduler.getMetrics();
+    const counter = (
+      name: string,
+      help: string,
+      samples: MetricFamily['samples'],
+    ): MetricFamily => ({ name, help, type: 'counter', samples });
+
+    return [
+      counter(
+        'vk_api_requests_total',
+        'Запросы к API VK по методам, включая повторы',
+        Object.entries(metrics.methods).map(([method, { requests }]) => ({
+          labels: { method },
+          value: requests,
+        })),
+      ),
+      counter(
+        'vk_api_errors_total',
+        'Ошибки API VK по кодам; network - сбои без ответа VK',
+        Object.entries(metrics.codes).map(([code, value]) => ({
+          labels: { code },
+          value,
+        })),
+      ),
+      counter('vk_api_retries_total', 'Повторы запросов к API VK', [
+        { labels: {}, value: metrics.retries },
+      ]),
+      counter(
+        'vk_api_failed_total',
+        'Запросы к API VK, не выполненные даже после повторов',
+        [{ labels: {}, value: metrics.failed }],
+      ),
+      counter(
+        'vk_api_throttled_seconds_total',
+        'Сколько запросы ждали собственных лимитов',
+        [{ labels: {}, value: metrics.throttledMs / 1000 }],
+      ),
+    ];
+  };
+}
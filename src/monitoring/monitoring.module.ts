@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { MonitoringController } from './monitoring.controller';
+import { VkModule } from '../vk/vk.module';
+import { QueueModule } from '../queue/queue.module';
+import { MetricsModule } from '../metrics/metrics.module';
+
+// /health и /metrics для мониторинга бота
+@Module({
+  imports: [VkModule, QueueModule, MetricsModule],
+  controllers: [MonitoringController],
+})
+export class MonitoringModule {}
@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NicknameService } from './nickname.service';
+import { NicknameRules } from '../types/campaign.type';
+
+describe('NicknameService', () => {
+  let service: NicknameService;
+
+  const rules = (overrides: Partial<NicknameRules> = {}): NicknameRules => ({
+    patterns: ['ник:\\s*(.*?)(?:\\n|$)', 'ник\\s+(.*?)(?:\\n|$)'],
+    minLength: 1,
+    maxLength: 32,
+    alphabets: [],
+    bannedWords: [],
+    letterCase: 'keep',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [NicknameService],
+    }).compile();
+
+    service = module.get<NicknameService>(NicknameService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should extract nicknames with the default patterns', () => {
+    expect(service.extract('Ник: Neo\nспасибо', rules())).toBe('Neo');
+    expect(service.extract('ник <Trinity>', rules())).toBe('Trinity');
+    expect(service.extract('ник:   ', rules())).toBeNull();
+    expect(service.extract('Классный пост', rules())).toBeNull();
+  });
+
+  it('should use the patterns of the campaign', () => {
+    const custom = rules({
+      patterns: ['(?:nick|name):\\s*(.+)', '«([^»]+)»'],
+    });
+
+    expect(service.extract('NAME: Morpheus', custom)).toBe('Morpheus');
+    expect(service.extract('хочу «Agent Smith» пожалуйста', custom)).toBe(
+      'Agent Smith',
+    );
+    expect(service.extract('ник Neo', custom)).toBeNull();
+  });
+
+  it('should check length, alphabets and banned words', () => {
+    expect(service.validate('N', rules({ minLength: 2 }))).toEqual({
+      valid: false,
+      reason: 'too-short',
+      limit: 2,
+    });
+    expect(service.validate('😀😀😀', rules({ maxLength: 3 }))).toMatchObject({
+      valid: true,
+    });
+    expect(
+      service.validate('Neo 😀 Нео', rules({ alphabets: ['latin'] })),
+    ).toEqual({
+      valid: false,
+      reason: 'alphabet',
+      characters: ['😀', 'Н', 'е', 'о'],
+    });
+    expect(
+      service.validate('Neo 2', rules({ alphabets: ['latin', 'digits'] })),
+    ).toMatchObject({ valid: true });
+    expect(
+      service.validate('SuperAdmin', rules({ bannedWords: ['admin'] })),
+    ).toEqual({ valid: false, reason: 'banned-word', word: 'admin' });
+  });
+
+  it('should apply the letter case of the campaign', () => {
+    expect(service.validate('Neo', rules({ letterCase: 'upper' }))).toEqual({
+      valid: true,
+      nickname: 'NEO',
+    });
+    expect(service.validate('Neo', rules())).toEqual({
+      valid: true,
+      nickname: 'Neo',
+    });
+  });
+});
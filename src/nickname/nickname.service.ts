@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import {
+  NicknameAlphabet,
+  NicknameCase,
+  NicknameRules,
+} from '../types/campaign.type';
+
+export type NicknameCheck =
+  | { valid: true; nickname: string }
+  | { valid: false; reason: 'too-short' | 'too-long'; limit: number }
+  | { valid: false; reason: 'alphabet'; characters: string[] }
+  | { valid: false; reason: 'banned-word'; word: string };
+
+const ALPHABETS: Record<NicknameAlphabet, RegExp> = {
+  latin: /\p{Script=Latin}/u,
+  cyrillic: /\p{Script=Cyrillic}/u,
+  digits: /\p{Nd}/u,
+  symbols: /[\p{P}\p{S}]/u,
+};
+
+/**
+ * Шаблон ника из настроек акции. Бросает ошибку, если выражение некорректно.
+ */
+export function compileNicknamePattern(pattern: string): RegExp {
+  return new RegExp(pattern, 'iu');
+}
+
+@Injectable()
+export class NicknameService {
+  #patterns = new Map<string, RegExp>();
+
+  /**
+   * Ищет ник в тексте по шаблонам акции. Возвращает null, если ни один шаблон не подошел
+   * или ник после очистки оказался пустым.
+   */
+  extract(text: string, rules: NicknameRules): string | null {
+    for (const pattern of rules.patterns) {
+      const match = this.#compile(pattern).exec(text);
+      if (match) {
+        console.log('Найден ник:', match[1]);
+        return this.sanitize(match[1] ?? '') || null;
+      }
+    }
+
+    console.log('Не удалось найти ник в допустимом формате');
+    return null;
+  }
+
+  sanitize(nickname: string): string {
+    // Экранирование для SVG делает ImageProcessingService, здесь убираем мусор и управляющие символы
+    return nickname
+      .replace(/[<>{}()/\\]/g, '')
+      .replace(/\p{Cc}/gu, '')
+      .trim();
+  }
+
+  /**
+   * Проверяет ник по правилам акции и приводит его к нужному регистру.
+   */
+  validate(nickname: string, rules: NicknameRules): NicknameCheck {
+    // Считаем символы, а не UTF-16, чтобы эмодзи не занимали по две позиции
+    const chars = [...nickname];
+
+    if (chars.length < rules.minLength) {
+      return { valid: false, reason: 'too-short', limit: rules.minLength };
+    }
+    if (chars.length > rules.maxLength) {
+      return { valid: false, reason: 'too-long', limit: rules.maxLength };
+    }
+
+    if (rules.alphabets.length) {
+      const allowed = rules.alphabets.map((alphabet) => ALPHABETS[alphabet]);
+      const forbidden = chars.filter(
+        (char) =>
+          !/\s/u.test(char) && !allowed.some((pattern) => pattern.test(char)),
+      );
+      if (forbidden.length) {
+        return {
+          valid: false,
+          reason: 'alphabet',
+          characters: [...new Set(forbidden)],
+        };
+      }
+    }
+
+    const lower = nickname.toLowerCase();
+    const word = rules.bannedWords.find((banned) =>
+      lower.includes(banned.toLowerCase()),
+    );
+    if (word) {
+      return { valid: false, reason: 'banned-word', word };
+    }
+
+    return {
+      valid: true,
+      nickname: this.#applyCase(nickname, rules.letterCase),
+    };
+  }
+
+  #applyCase = (nickname: string, letterCase: NicknameCase): string => {
+    switch (letterCase) {
+      case 'upper':
+        return nickname.toUpperCase();
+      case 'lower':
+        return nickname.toLowerCase();
+      case 'keep':
+        return nickname;
+    }
+  };
+
+  #compile = (pattern: string): RegExp => {
+    let compiled = this.#patterns.get(pattern);
+    if (!compiled) {
+      compiled = compileNicknamePattern(pattern);
+      this.#patterns.set(pattern, compiled);
+    }
+    return compiled;
+  };
+}
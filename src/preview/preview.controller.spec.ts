@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PreviewController } from './preview.controller';
+import { ImageProcessingService } from '../image-processing/image-processing.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { ArchiveService } from '../archive/archive.service';
+import { NicknameService } from '../nickname/nickname.service';
+
+describe('PreviewController', () => {
+  let app: INestApplication<App>;
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'preview-'));
+    const campaignsPath = path.join(tmpDir, 'campaigns.json');
+    await fs.writeFile(
+      campaignsPath,
+      JSON.stringify([
+        { id: 'main', postId: 1 },
+        { id: 'extras', postId: 2, outputs: ['avatar', 'telegram_avatar'] },
+      ]),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PreviewController],
+      providers: [
+        ImageProcessingService,
+        ArchiveService,
+        CampaignsService,
+        NicknameService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            CAMPAIGNS_PATH: campaignsPath,
+            ADMIN_TOKEN: 'token',
+          }),
+        },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should require the admin token', async () => {
+    await request(app.getHttpServer())
+      .get('/preview/avatar')
+      .query({ nickname: 'Neo' })
+      .expect(401);
+    await request(app.getHttpServer())
+      .post('/bundle')
+      .send({ nickname: 'Neo' })
+      .expect(401);
+  });
+
+  it('should render a single output as PNG', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/preview/avatar')
+      .set('Authorization', 'Bearer token')
+      .query({ nickname: 'Neo' })
+      .expect(200)
+      .expect('Content-Type', 'image/png');
+
+    expect((response.body as Buffer).subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('should render archive outputs in their format', async () => {
+    await request(app.getHttpServer())
+      .get('/preview/telegram_avatar')
+      .set('Authorization', 'Bearer token')
+      .query({ nickname: 'Neo', campaign: 'extras' })
+      .expect(200)
+      .expect('Content-Type', 'image/jpeg');
+  });
+
+  it('should reject unknown outputs and empty nicknames', async () => {
+    await request(app.getHttpServer())
+      .get('/preview/banner')
+      .set('Authorization', 'Bearer token')
+      .query({ nickname: 'Neo' })
+      .expect(404);
+    await request(app.getHttpServer())
+      .get('/preview/avatar')
+      .set('Authorization', 'Bearer token')
+      .expect(400);
+  });
+
+  it('should reject repeated and non-string parameters', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/preview/avatar?nickname=Neo&nickname=Trinity')
+      .set('Authorization', 'Bearer token')
+      .expect(400);
+    expect(response.body.message).toBe('nickname должен быть строкой');
+
+    await request(app.getHttpServer())
+      .get('/preview/avatar?nickname=Neo&campaign=main&campaign=extras')
+      .set('Authorization', 'Bearer token')
+      .expect(400);
+    await request(app.getHttpServer())
+      .post('/bundle')
+      .set('Authorization', 'Bearer token')
+      .send({ nickname: ['Neo'] })
+      .expect(400);
+  });
+
+  it('should explain characters the fonts cannot draw', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/preview/avatar')
+      .set('Authorization', 'Bearer token')
+      .query({ nickname: 'Neo 😀' })
+      .expect(400);
+
+    expect(response.body.message).toContain('😀');
+  });
+
+  it('should return the bundle archive', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/bundle')
+      .set('Authorization', 'Bearer token')
+      .send({ nickname: 'Neo' })
+      .responseType('blob')
+      .expect(200)
+      .expect('Content-Type', 'application/zip')
+      .expect('Content-Disposition', /bundle_Neo\.zip/);
+
+    const archive = response.body as Buffer;
+    expect(archive.subarray(0, 2).toString()).toBe('PK');
+    // Имена файлов в zip хранятся открытым текстом
+    expect(archive.includes('Neo_avatar.png')).toBe(true);
+    expect(archive.includes('README.txt')).toBe(true);
+  });
+
+  it('should clean the nickname before naming the archive files', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/bundle')
+      .set('Authorization', 'Bearer token')
+      .send({ nickname: '../Neo\u0007' })
+      .responseType('blob')
+      .expect(200)
+      .expect('Content-Disposition', /bundle_\.\.Neo\.zip/);
+
+    const archive = response.body as Buffer;
+    expect(archive.includes('..Neo_avatar.png')).toBe(true);
+    expect(archive.includes('../')).toBe(false);
+  });
+
+  it('should check the nickname by the rules of the campaign', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/preview/avatar')
+      .set('Authorization', 'Bearer token')
+      .query({ nickname: 'Ж'.repeat(33) })
+      .expect(400);
+
+    expect(response.body.message).toContain('too-long');
+  });
+});
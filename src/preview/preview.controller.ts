@@ -0,0 +1,147 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { ImageProcessingService } from '../image-processing/image-processing.service';
+import { UnsupportedCharactersError } from '../image-processing/unsupported-characters.error';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { ArchiveService } from '../archive/archive.service';
+import { NicknameService } from '../nickname/nickname.service';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+import { BundleOutput, Campaign } from '../types/campaign.type';
+
+interface BundlePreviewRequest {
+  nickname?: unknown;
+  campaign?: unknown;
+}
+
+// Предпросмотр бандлов для дизайнеров и модераторов, работает без токенов VK,
+// но только с токеном администратора: без ADMIN_TOKEN отвечает 404, как и админский API
+@Controller()
+@UseGuards(AdminTokenGuard)
+export class PreviewController {
+  constructor(
+    private readonly imageProcessingService: ImageProcessingService,
+    private readonly campaignsService: CampaignsService,
+    private readonly archiveService: ArchiveService,
+    private readonly nicknameService: NicknameService,
+  ) {}
+
+  @Get('preview/:output')
+  async preview(
+    @Param('output') output: string,
+    @Query('nickname') nickname?: unknown,
+    @Query('campaign') campaignId?: unknown,
+  ): Promise<StreamableFile> {
+    const campaign = this.#getCampaign(campaignId);
+    const name = this.#parseNickname(nickname, campaign);
+
+    // Шаблон отдаем в PNG как есть, иначе ищем файл архива, например telegram_avatar
+    const layouts = await this.imageProcessingService.getLayouts(campaign);
+    const layout = layouts.find((item) => item.name === output);
+    const file: BundleOutput | undefined = layout
+      ? { name: layout.name, layout: layout.name, format: 'png' }
+      : (await this.imageProcessingService.getOutputs(campaign)).find(
+          (item) => item.name === output,
+        );
+    if (!file) {
+      throw new NotFoundException(
+        `Шаблон ${output} не найден в акции ${campaign.id}`,
+      );
+    }
+
+    const unsupported =
+      await this.imageProcessingService.findUnsupportedCharacters(
+        name,
+        campaign,
+      );
+    if (unsupported.length) {
+      throw new BadRequestException(
+        new UnsupportedCharactersError(unsupported).message,
+      );
+    }
+
+    const image = await this.imageProcessingService.renderOutput(
+      name,
+      file,
+      campaign,
+    );
+    return new StreamableFile(image, { type: `image/${file.format}` });
+  }
+
+  @Post('bundle')
+  @HttpCode(200)
+  async bundle(@Body() body: BundlePreviewRequest): Promise<StreamableFile> {
+    const campaign = this.#getCampaign(body?.campaign);
+    const name = this.#parseNickname(body?.nickname, campaign);
+
+    try {
+      const bundle = await this.imageProcessingService.createBundle(
+        name,
+        campaign,
+      );
+      const files = await this.imageProcessingService.createOutputs(
+        name,
+        bundle,
+        campaign,
+      );
+      const archive = await this.archiveService.createZipArchive(files, name);
+      const fileName = this.campaignsService.formatMessage(
+        campaign.archiveName,
+        { nickname: name },
+      );
+
+      return new StreamableFile(archive, {
+        type: 'application/zip',
+        disposition: `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      });
+    } catch (error) {
+      if (error instanceof UnsupportedCharactersError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Повторенный параметр запроса (?nickname=a&nickname=b) приходит массивом
+  #getCampaign = (id: unknown): Campaign => {
+    if (id !== undefined && typeof id !== 'string') {
+      throw new BadRequestException('campaign должен быть строкой');
+    }
+
+    const campaign = this.campaignsService.getForPreview(id);
+    if (!campaign) {
+      throw new NotFoundException(`Акция ${id} не найдена`);
+    }
+    return campaign;
+  };
+
+  // Ник проходит ту же очистку и проверку, что и ник из комментария: он попадает в имена файлов архива
+  #parseNickname = (nickname: unknown, campaign: Campaign): string => {
+    if (nickname !== undefined && typeof nickname !== 'string') {
+      throw new BadRequestException('nickname должен быть строкой');
+    }
+
+    const name = this.nicknameService.sanitize(nickname ?? '');
+    if (!name) {
+      throw new BadRequestException('Не указан nickname');
+    }
+
+    const check = this.nicknameService.validate(name, campaign.nickname);
+    if (!check.valid) {
+      throw new BadRequestException(
+        `Ник не прошел проверку акции ${campaign.id}: ${check.reason}`,
+      );
+    }
+    return check.nickname;
+  };
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { PreviewController } from './preview.controller';
+import { ImageProcessingModule } from '../image-processing/image-processing.module';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { ArchiveModule } from '../archive/archive.module';
+import { NicknameModule } from '../nickname/nickname.module';
+
+@Module({
+  imports: [
+    ImageProcessingModule,
+    CampaignsModule,
+    ArchiveModule,
+    NicknameModule,
+  ],
+  controllers: [PreviewController],
+})
+export class PreviewModule {}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { QueueService } from './queue.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [StorageModule],
+  providers: [QueueService],
+  exports: [QueueService],
+})
+export class QueueModule {}
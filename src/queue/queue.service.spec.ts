@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { QueueService } from './queue.service';
+import { StorageService } from '../storage/storage.service';
+import { Job } from '../types/job.type';
+
+describe('QueueService', () => {
+  let service: QueueService;
+  let files: Record<string, unknown>;
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueueService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            QUEUE_CONCURRENCY: '1',
+            QUEUE_MAX_ATTEMPTS: '2',
+            QUEUE_RETRY_DELAY_MS: '1',
+          }),
+        },
+        {
+          provide: StorageService,
+          useValue: {
+            read: (name: string, fallback: unknown) =>
+              Promise.resolve(files[name] ?? fallback),
+            write: (name: string, data: unknown) => {
+              files[name] = JSON.parse(JSON.stringify(data));
+              return Promise.resolve();
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<QueueService>(QueueService);
+  };
+
+  const waitFor = async (predicate: () => boolean) => {
+    for (let i = 0; i < 100 && !predicate(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    files = {};
+    service = await createService();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should process each job id only once', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    await service.process(handler);
+
+    await expect(service.enqueue('a', { n: 1 })).resolves.toBe(true);
+    await expect(service.enqueue('a', { n: 1 })).resolves.toBe(false);
+    await waitFor(() => handler.mock.calls.length > 0);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toEqual({ n: 1 });
+  });
+
+  it('should retry and report a job that keeps failing', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('flood'));
+    const onFailed = jest.fn().mockResolvedValue(undefined);
+    await service.process(handler, onFailed);
+
+    await service.enqueue('b', { n: 2 });
+    await waitFor(() => onFailed.mock.calls.length > 0);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(onFailed).toHaveBeenCalledWith(
+      { n: 2 },
+      expect.objectContaining({ message: 'flood' }),
+      expect.objectContaining({ id: 'b', status: 'failed' }),
+    );
+  });
+
+  it('should report the position of waiting jobs', async () => {
+    let release = () => undefined as void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const handler = jest.fn(() => gate);
+    await service.process(handler);
+
+    await service.enqueue('a', { userId: 1 });
+    await service.enqueue('b', { userId: 2 });
+    await service.enqueue('c', { userId: 1 });
+
+    await expect(service.getPosition('a')).resolves.toBe(0);
+    await expect(service.getPosition('c')).resolves.toBe(2);
+    await expect(service.getPosition('x')).resolves.toBeUndefined();
+    await expect(
+      service.find<{ userId: number }>((job) => job.payload.userId === 1),
+    ).resolves.toMatchObject([{ id: 'a' }, { id: 'c' }]);
+    release();
+  });
+
+  it('should finish active jobs before stopping', async () => {
+    let release = () => undefined as void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const handler = jest.fn(() => gate);
+    expect(service.isProcessing).toBe(false);
+    await service.process(handler);
+    expect(service.isProcessing).toBe(true);
+    await service.enqueue('a', { n: 1 });
+    await service.enqueue('b', { n: 2 });
+    await waitFor(() => handler.mock.calls.length > 0);
+
+    let stopped = false;
+    const stopping = service.onModuleDestroy().then(() => (stopped = true));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(stopped).toBe(false);
+
+    release();
+    await stopping;
+    expect(service.isProcessing).toBe(false);
+    const [a, b] = await service.find(() => true);
+    expect(a).toMatchObject({ id: 'a', status: 'done' });
+    // Новые задачи после остановки не берутся
+    expect(b).toMatchObject({ id: 'b', status: 'pending' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume jobs interrupted by a restart', async () => {
+    const interrupted: Job = {
+      id: 'c',
+      payload: { n: 3 },
+      status: 'processing',
+      attempts: 1,
+      runAt: 0,
+      createdAt: 0,
+      updatedAt: Date.now(),
+    };
+    files['jobs.json'] = [interrupted];
+    service = await createService();
+
+    const handler = jest.fn().mockResolvedValue(undefined);
+    await service.process(handler);
+    await waitFor(() => handler.mock.calls.length > 0);
+
+    expect(handler).toHaveBeenCalledWith({ n: 3 }, expect.anything());
+  });
+
+  it('should drop finished and failed jobs after the retention time', async () => {
+    const old = Date.now() - 169 * 60 * 60 * 1000;
+    const job = (id: string, status: Job['status']): Job => ({
+      id,
+      payload: {},
+      status,
+      attempts: 1,
+      runAt: old,
+      createdAt: old,
+      updatedAt: old,
+    });
+    files['jobs.json'] = [job('done', 'done'), job('failed', 'failed')];
+    service = await createService();
+
+    await expect(service.enqueue('new', {})).resolves.toBe(true);
+    await expect(service.enqueue('failed', {})).resolves.toBe(true);
+    expect(files['jobs.json']).toMatchObject([{ id: 'new' }, { id: 'failed' }]);
+  });
+
+  it('should keep the progress a failed job saved for its retry', async () => {
+    const handler = jest.fn(async (payload: { steps: string[] }) => {
+      if (!payload.steps.includes('first')) {
+        payload.steps.push('first');
+        await service.saveProgress();
+        throw new Error('boom');
+      }
+    });
+
+    await service.process(handler);
+    await service.enqueue('a', { steps: [] });
+    await waitFor(() => handler.mock.calls.length === 2);
+
+    expect(handler).toHaveBeenLastCalledWith(
+      { steps: ['first'] },
+      expect.anything(),
+    );
+    expect(files['jobs.json']).toMatchObject([
+      { status: 'done', payload: { steps: ['first'] } },
+    ]);
+  });
+});
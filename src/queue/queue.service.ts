@@ -0,0 +1,279 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService } from '../storage/storage.service';
+import { Job } from '../types/job.type';
+
+export type JobHandler<T> = (payload: T, job: Job<T>) => Promise<void>;
+export type JobFailedHandler<T> = (
+  payload: T,
+  error: Error,
+  job: Job<T>,
+) => Promise<void>;
+
+const JOBS_FILE = 'jobs.json';
+
+@Injectable()
+export class QueueService implements OnModuleDestroy {
+  #storage: StorageService;
+  #jobs = new Map<string, Job>();
+  #loaded?: Promise<void>;
+  #handler?: JobHandler<unknown>;
+  #onFailed?: JobFailedHandler<unknown>;
+  #active = 0;
+  // Выполняемые задачи, чтобы при остановке дождаться их
+  #running = new Set<Promise<void>>();
+  #timer?: NodeJS.Timeout;
+
+  #concurrency: number;
+  #maxAttempts: number;
+  #retryDelayMs: number;
+  #retentionMs: number;
+
+  constructor(configService: ConfigService, storage: StorageService) {
+    this.#storage = storage;
+    this.#concurrency = Number(
+      configService.get<string>('QUEUE_CONCURRENCY') || 2,
+    );
+    this.#maxAttempts = Number(
+      configService.get<string>('QUEUE_MAX_ATTEMPTS') || 5,
+    );
+    this.#retryDelayMs = Number(
+      configService.get<string>('QUEUE_RETRY_DELAY_MS') || 30000,
+    );
+    // Завершенные и упавшие задачи храним, чтобы не обработать тот же комментарий повторно
+    this.#retentionMs =
+      Number(configService.get<string>('QUEUE_RETENTION_HOURS') || 168) *
+      60 *
+      60 *
+      1000;
+  }
+
+  /**
+   * Новые задачи больше не берем, а начатые доделываем: иначе они допишут
+   * кэш и реестр уже после остановки приложения.
+   */
+  async onModuleDestroy(): Promise<void> {
+    clearTimeout(this.#timer);
+    this.#handler = undefined;
+    await Promise.all(this.#running);
+  }
+
+  /**
+   * Ставит задачу в очередь. Возвращает false, если задача с таким id уже была.
+   */
+  async enqueue<T>(id: string, payload: T): Promise<boolean> {
+    await this.#load();
+
+    if (this.#jobs.has(id)) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.#jobs.set(id, {
+      id,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await this.#save();
+
+    this.#pump();
+    return true;
+  }
+
+  async process<T>(
+    handler: JobHandler<T>,
+    onFailed?: JobFailedHandler<T>,
+  ): Promise<void> {
+    await this.#load();
+
+    // Обработчик у очереди один, и задачи в ней того типа, с которым вызван process
+    this.#handler = handler as JobHandler<unknown>;
+    this.#onFailed = onFailed as JobFailedHandler<unknown> | undefined;
+    this.#pump();
+  }
+
+  /**
+   * Есть ли обработчик: без него, например при выключенном VK, задачи только копятся.
+   */
+  get isProcessing(): boolean {
+    return this.#handler !== undefined;
+  }
+
+  async getPendingCount(): Promise<number> {
+    await this.#load();
+
+    return [...this.#jobs.values()].filter(
+      (job) => job.status === 'pending' || job.status === 'processing',
+    ).length;
+  }
+
+  /**
+   * Сохраняет изменения, которые обработчик внес в данные выполняющейся задачи,
+   * чтобы они пережили и повтор, и перезапуск.
+   */
+  saveProgress(): Promise<void> {
+    return this.#save();
+  }
+
+  /**
+   * Задачи, подходящие под условие, в порядке постановки в очередь.
+   */
+  async find<T>(predicate: (job: Job<T>) => boolean): Promise<Job<T>[]> {
+    await this.#load();
+
+    return [...this.#jobs.values()].filter((job) =>
+      predicate(job as Job<T>),
+    ) as Job<T>[];
+  }
+
+  /**
+   * Место задачи в очереди начиная с 1; 0 - задача уже выполняется,
+   * undefined - задача завершена или не найдена.
+   */
+  async getPosition(id: string): Promise<number | undefined> {
+    await this.#load();
+
+    const job = this.#jobs.get(id);
+    if (job?.status === 'processing') {
+      return 0;
+    }
+    if (job?.status !== 'pending') {
+      return undefined;
+    }
+
+    // Задачи запускаются по runAt, при равенстве - в порядке постановки
+    const pending = [...this.#jobs.values()]
+      .filter((item) => item.status === 'pending')
+      .sort((a, b) => a.runAt - b.runAt);
+    return pending.indexOf(job) + 1;
+  }
+
+  #load = (): Promise<void> => {
+    this.#loaded ??= (async () => {
+      const jobs = await this.#storage.read<Job[]>(JOBS_FILE, []);
+
+      for (const job of jobs) {
+        // Задачи, прерванные перезапуском, возвращаем в очередь
+        if (job.status === 'processing') {
+          job.status = 'pending';
+        }
+        this.#jobs.set(job.id, job);
+      }
+      this.#prune();
+
+      console.log(
+        `Очередь загружена: ${jobs.length} задач, к обработке ${
+          [...this.#jobs.values()].filter((job) => job.status === 'pending')
+            .length
+        }`,
+      );
+    })();
+
+    return this.#loaded;
+  };
+
+  #prune = () => {
+    const expiredBefore = Date.now() - this.#retentionMs;
+    for (const job of this.#jobs.values()) {
+      if (
+        (job.status === 'done' || job.status === 'failed') &&
+        job.updatedAt < expiredBefore
+      ) {
+        this.#jobs.delete(job.id);
+      }
+    }
+  };
+
+  #save = (): Promise<void> => {
+    return this.#storage.write(JOBS_FILE, [...this.#jobs.values()]);
+  };
+
+  #pump = () => {
+    if (!this.#handler) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const job of this.#jobs.values()) {
+      if (this.#active >= this.#concurrency) {
+        break;
+      }
+      if (job.status === 'pending' && job.runAt <= now) {
+        const running = this.#run(job);
+        this.#running.add(running);
+        void running.finally(() => this.#running.delete(running));
+      }
+    }
+
+    this.#scheduleNext();
+  };
+
+  #scheduleNext = () => {
+    clearTimeout(this.#timer);
+
+    const nextRunAt = Math.min(
+      ...[...this.#jobs.values()]
+        .filter((job) => job.status === 'pending')
+        .map((job) => job.runAt),
+    );
+
+    if (Number.isFinite(nextRunAt)) {
+      this.#timer = setTimeout(this.#pump, Math.max(nextRunAt - Date.now(), 0));
+      this.#timer.unref();
+    }
+  };
+
+  #run = async (job: Job) => {
+    const handler = this.#handler!;
+    this.#active++;
+    job.status = 'processing';
+    job.attempts++;
+    job.updatedAt = Date.now();
+
+    try {
+      await this.#save();
+      await handler(job.payload, job);
+      job.status = 'done';
+      job.lastError = undefined;
+    } catch (error) {
+      job.lastError = error.message;
+
+      if (job.attempts < this.#maxAttempts) {
+        // Экспоненциальная задержка между попытками
+        job.status = 'pending';
+        job.runAt = Date.now() + this.#retryDelayMs * 2 ** (job.attempts - 1);
+        console.warn(
+          `Задача ${job.id} упала (попытка ${job.attempts}), повтор в ${new Date(job.runAt).toISOString()}:`,
+          error.message,
+        );
+      } else {
+        job.status = 'failed';
+        console.error(
+          `Задача ${job.id} окончательно упала после ${job.attempts} попыток:`,
+          error.message,
+        );
+        try {
+          await this.#onFailed?.(job.payload, error, job);
+        } catch (failedError) {
+          console.error(
+            `Ошибка в обработчике неудачной задачи ${job.id}:`,
+            failedError,
+          );
+        }
+      }
+    } finally {
+      job.updatedAt = Date.now();
+      this.#active--;
+      // Без перезапуска файл очереди иначе рос бы с каждой задачей
+      this.#prune();
+      await this.#save().catch((error) =>
+        console.error('Не удалось сохранить очередь:', error),
+      );
+      this.#pump();
+    }
+  };
+}
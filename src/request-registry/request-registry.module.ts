@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { RequestRegistryService } from './request-registry.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [StorageModule],
+  providers: [RequestRegistryService],
+  exports: [RequestRegistryService],
+})
+export class RequestRegistryModule {}
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RequestRegistryService } from './request-registry.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('RequestRegistryService', () => {
+  let service: RequestRegistryService;
+
+  const createService = async (config: Record<string, string>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RequestRegistryService,
+        { provide: ConfigService, useValue: new ConfigService(config) },
+        {
+          provide: StorageService,
+          useValue: {
+            read: (_name: string, fallback: unknown) =>
+              Promise.resolve(fallback),
+            write: () => Promise.resolve(),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<RequestRegistryService>(RequestRegistryService);
+  };
+
+  const request = (
+    id: string,
+    nickname: string,
+    postKey = '-1_10',
+    campaignId?: string,
+  ) => ({
+    id,
+    userId: 42,
+    nickname,
+    postKey,
+    campaignId,
+  });
+
+  beforeEach(async () => {
+    service = await createService({ LIMIT_PER_POST: '1' });
+  });
+
+  it('should allow one bundle per user per post', async () => {
+    await expect(service.reserve(request('1', 'Alpha'))).resolves.toEqual({
+      allowed: true,
+    });
+    await expect(service.reserve(request('2', 'Beta'))).resolves.toEqual({
+      allowed: false,
+      reason: 'post-limit',
+      limit: 1,
+    });
+    await expect(
+      service.reserve(request('3', 'Beta', '-1_11')),
+    ).resolves.toEqual({ allowed: true });
+  });
+
+  it('should allow a retry of the same request', async () => {
+    await service.reserve(request('1', 'Alpha'));
+
+    await expect(service.reserve(request('1', 'Alpha'))).resolves.toEqual({
+      allowed: true,
+    });
+  });
+
+  it('should keep the reservation when the nickname is corrected', async () => {
+    await service.reserve(request('1', 'Alpah'));
+    await service.complete('1', 'https://vk.com/wall-1_10?reply=5');
+
+    await expect(service.reserve(request('1', 'Alpha'))).resolves.toEqual({
+      allowed: true,
+    });
+    await expect(service.findLastIssued(42)).resolves.toMatchObject({
+      nickname: 'Alpha',
+      status: 'issued',
+    });
+    await expect(service.reserve(request('2', 'alpha'))).resolves.toMatchObject(
+      { allowed: false, reason: 'duplicate' },
+    );
+  });
+
+  it('should point to the earlier result for the same nickname', async () => {
+    await service.reserve(request('1', 'Alpha'));
+    await service.complete('1', 'https://vk.com/wall-1_10?reply=5');
+
+    await expect(service.reserve(request('2', 'alpha'))).resolves.toMatchObject(
+      {
+        allowed: false,
+        reason: 'duplicate',
+        previous: { resultUrl: 'https://vk.com/wall-1_10?reply=5' },
+      },
+    );
+  });
+
+  it('should count bundles and limits separately in each campaign', async () => {
+    service = await createService({ LIMIT_PER_POST: '1', LIMIT_PER_DAY: '1' });
+    await service.reserve(request('1', 'Alpha', '-1_10', 'spring'));
+    await service.complete('1', 'https://vk.com/wall-1_10?reply=5');
+
+    await expect(
+      service.reserve(request('2', 'alpha', '-1_11', 'winter')),
+    ).resolves.toEqual({ allowed: true });
+    await expect(
+      service.reserve(request('3', 'Alpha', '-1_10', 'spring')),
+    ).resolves.toMatchObject({
+      allowed: false,
+      reason: 'duplicate',
+      previous: { campaignId: 'spring' },
+    });
+    await expect(
+      service.reserve(request('4', 'Gamma', '-1_11', 'winter')),
+    ).resolves.toMatchObject({ allowed: false, reason: 'post-limit' });
+  });
+
+  it('should find the last issued bundle with the original nickname', async () => {
+    await service.reserve(request('1', 'Alpha'));
+    await service.complete('1', 'https://vk.com/wall-1_10?reply=5');
+    await service.reserve(request('2', 'Beta', '-1_11'));
+
+    await expect(service.findLastIssued(42)).resolves.toMatchObject({
+      id: '1',
+      nickname: 'Alpha',
+    });
+    await expect(service.findLastIssued(43)).resolves.toBeUndefined();
+  });
+
+  it('should enforce the daily limit and free released requests', async () => {
+    service = await createService({ LIMIT_PER_POST: '0', LIMIT_PER_DAY: '1' });
+
+    await service.reserve(request('1', 'Alpha', '-1_10', 'spring'));
+    await expect(
+      service.reserve(request('2', 'Beta', '-1_11', 'spring')),
+    ).resolves.toMatchObject({ allowed: false, reason: 'daily-limit' });
+
+    await service.release('1');
+    await expect(
+      service.reserve(request('2', 'Beta', '-1_11', 'spring')),
+    ).resolves.toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService } from '../storage/storage.service';
+import { RequestRecord } from '../types/request-record.type';
+
+const REQUESTS_FILE = 'requests.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BundleRequest {
+  id: string;
+  userId: number;
+  nickname: string;
+  postKey: string;
+  campaignId?: string;
+}
+
+export type RequestCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'duplicate'; previous: RequestRecord }
+  | { allowed: false; reason: 'post-limit' | 'daily-limit'; limit: number };
+
+@Injectable()
+export class RequestRegistryService {
+  #storage: StorageService;
+  #records?: Promise<RequestRecord[]>;
+  #perPostLimit: number;
+  #perDayLimit: number;
+
+  constructor(configService: ConfigService, storage: StorageService) {
+    this.#storage = storage;
+    // 0 означает отсутствие ограничения
+    this.#perPostLimit = Number(
+      configService.get<string>('LIMIT_PER_POST') ?? 1,
+    );
+    this.#perDayLimit = Number(configService.get<string>('LIMIT_PER_DAY') ?? 0);
+  }
+
+  /**
+   * Проверяет лимиты и резервирует место под запрос.
+   * Повторный вызов для того же id (ретрай задачи или исправленный
+   * в комментарии ник) всегда разрешен и только обновляет ник.
+   */
+  async reserve(request: BundleRequest): Promise<RequestCheck> {
+    const records = await this.#load();
+
+    const existing = records.find((record) => record.id === request.id);
+    if (existing) {
+      if (existing.nickname !== request.nickname.trim()) {
+        existing.nickname = request.nickname.trim();
+        await this.#save(records);
+      }
+      return { allowed: true };
+    }
+
+    const nickname = this.#normalize(request.nickname);
+    // Лимиты и повторы считаются внутри акции: бандл другой акции - другой бандл
+    const userRecords = records.filter(
+      (record) =>
+        record.userId === request.userId && this.#sameCampaign(record, request),
+    );
+
+    const previous = userRecords.find(
+      (record) =>
+        record.status === 'issued' &&
+        this.#normalize(record.nickname) === nickname,
+    );
+    if (previous) {
+      return { allowed: false, reason: 'duplicate', previous };
+    }
+
+    const postCount = userRecords.filter(
+      (record) => record.postKey === request.postKey,
+    ).length;
+    if (this.#perPostLimit > 0 && postCount >= this.#perPostLimit) {
+      return {
+        allowed: false,
+        reason: 'post-limit',
+        limit: this.#perPostLimit,
+      };
+    }
+
+    const dayCount = userRecords.filter(
+      (record) => record.createdAt > Date.now() - DAY_MS,
+    ).length;
+    if (this.#perDayLimit > 0 && dayCount >= this.#perDayLimit) {
+      return {
+        allowed: false,
+        reason: 'daily-limit',
+        limit: this.#perDayLimit,
+      };
+    }
+
+    records.push({
+      id: request.id,
+      userId: request.userId,
+      nickname: request.nickname.trim(),
+      postKey: request.postKey,
+      campaignId: request.campaignId,
+      status: 'reserved',
+      createdAt: Date.now(),
+    });
+    await this.#save(records);
+
+    return { allowed: true };
+  }
+
+  async complete(id: string, resultUrl: string): Promise<void> {
+    const records = await this.#load();
+    const record = records.find((item) => item.id === id);
+
+    if (record) {
+      record.status = 'issued';
+      record.resultUrl = resultUrl;
+      await this.#save(records);
+    }
+  }
+
+  /**
+   * Последний бандл, который пользователь уже получил.
+   */
+  async findLastIssued(userId: number): Promise<RequestRecord | undefined> {
+    const records = await this.#load();
+
+    return records
+      .filter(
+        (record) => record.userId === userId && record.status === 'issued',
+      )
+      .reduce<
+        RequestRecord | undefined
+      >((last, record) => (!last || record.createdAt >= last.createdAt ? record : last), undefined);
+  }
+
+  /**
+   * Снимает резерв, если бандл так и не удалось выдать, чтобы не сжигать лимит пользователя.
+   */
+  async release(id: string): Promise<void> {
+    const records = await this.#load();
+    const index = records.findIndex(
+      (record) => record.id === id && record.status === 'reserved',
+    );
+
+    if (index !== -1) {
+      records.splice(index, 1);
+      await this.#save(records);
+    }
+  }
+
+  // В записях до появления акций campaignId нет, для них акцию определяет пост
+  #sameCampaign = (record: RequestRecord, request: BundleRequest): boolean => {
+    return record.campaignId && request.campaignId
+      ? record.campaignId === request.campaignId
+      : record.postKey === request.postKey;
+  };
+
+  #normalize = (nickname: string): string => {
+    return nickname.trim().toLowerCase();
+  };
+
+  #load = (): Promise<RequestRecord[]> => {
+    this.#records ??= this.#storage.read<RequestRecord[]>(REQUESTS_FILE, []);
+    return this.#records;
+  };
+
+  #save = (records: RequestRecord[]): Promise<void> => {
+    return this.#storage.write(REQUESTS_FILE, records);
+  };
+}
@@ -0,0 +1,60 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageService } from './storage.service';
+
+describe('StorageService', () => {
+  let service: StorageService;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<StorageService>(StorageService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should return fallback for missing file', async () => {
+    await expect(service.read('missing.json', [])).resolves.toEqual([]);
+  });
+
+  it('should keep the last of concurrent writes', async () => {
+    await Promise.all([
+      service.write('state.json', { value: 1 }),
+      service.write('state.json', { value: 2 }),
+    ]);
+
+    await expect(service.read('state.json', null)).resolves.toEqual({
+      value: 2,
+    });
+  });
+
+  it('should append records as JSON lines', async () => {
+    await expect(service.readLines('audit.jsonl')).resolves.toEqual([]);
+
+    await Promise.all([
+      service.append('audit.jsonl', { n: 1 }),
+      service.append('audit.jsonl', { n: 2 }),
+    ]);
+
+    await expect(service.readLines('audit.jsonl')).resolves.toEqual([
+      { n: 1 },
+      { n: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+@Injectable()
+export class StorageService {
+  #dataDir: string;
+  // Очередь записи для каждого файла, чтобы параллельные сохранения не перетирали друг друга
+  #writes = new Map<string, Promise<void>>();
+
+  constructor(configService: ConfigService) {
+    this.#dataDir = path.resolve(
+      process.cwd(),
+      configService.get<string>('DATA_DIR') || 'data',
+    );
+  }
+
+  resolve(name: string): string {
+    return path.join(this.#dataDir, name);
+  }
+
+  async read<T>(name: string, fallback: T): Promise<T> {
+    const content = await this.#readText(name);
+    return content === undefined ? fallback : (JSON.parse(content) as T);
+  }
+
+  async write<T>(name: string, data: T): Promise<void> {
+    const filePath = this.resolve(name);
+
+    return this.#enqueueWrite(filePath, async () => {
+      // Пишем во временный файл и переименовываем, чтобы не оставить битый JSON при падении
+      const tmpPath = `${filePath}.tmp`;
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+      await fs.rename(tmpPath, filePath);
+    });
+  }
+
+  /**
+   * Дописывает запись строкой JSON в конец файла. Подходит для журналов,
+   * которые только растут.
+   */
+  async append<T>(name: string, record: T): Promise<void> {
+    const filePath = this.resolve(name);
+
+    return this.#enqueueWrite(filePath, async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, `${JSON.stringify(record)}\n`);
+    });
+  }
+
+  async readLines<T>(name: string): Promise<T[]> {
+    const content = await this.#readText(name);
+    return (content ?? '')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as T);
+  }
+
+  #readText = async (name: string): Promise<string | undefined> => {
+    try {
+      return await fs.readFile(this.resolve(name), 'utf-8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  #enqueueWrite = (
+    filePath: string,
+    write: () => Promise<void>,
+  ): Promise<void> => {
+    const previous = this.#writes.get(filePath) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+
+    this.#writes.set(filePath, next);
+    return next;
+  };
+}
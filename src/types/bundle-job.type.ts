@@ -0,0 +1,40 @@
+// preview - одна картинка для примера, resend - повторная отправка уже выданного бандла.
+// Оба вида не расходуют лимиты пользователя
+export type BundleJobKind = 'bundle' | 'preview' | 'resend';
+
+// Ответы, из которых состоит доставка бандла
+export type DeliveryStep = 'messages' | 'notice' | 'covers' | 'avatar';
+
+export interface DeliveredStep {
+  // Id ответа в ветке комментария
+  replyId?: number;
+  attachments: string[];
+}
+
+// Запрос бандла из комментария или из личных сообщений сообщества
+export interface BundleJob {
+  campaignId: string;
+  // Пост акции; для запросов из личных сообщений - пост, к которому привязана акция
+  ownerId: number;
+  postId: number;
+  // Есть только у запросов из комментариев
+  commentId?: number;
+  // Есть только у запросов из личных сообщений
+  messageId?: number;
+  fromId: number;
+  nickname: string;
+  // Если не указан, это обычный запрос бандла
+  kind?: BundleJobKind;
+  // Ник одобрен администратором, повторно на модерацию не отправляем
+  moderated?: boolean;
+  // Фото пользователя для шаблонов с местом под него
+  photoUrl?: string;
+  // Номер правки комментария: задачи для прошлых версий пропускаются
+  revision?: number;
+  // Убрать прошлые ответы бота на комментарий: ник исправлен или бандл перерисован
+  replaceReplies?: boolean;
+  // Рисовать заново, не беря бандл из кэша
+  fresh?: boolean;
+  // Уже отправленные ответы: повтор упавшей задачи отправляет только недостающие
+  delivered?: Partial<Record<DeliveryStep, DeliveredStep>>;
+}
@@ -1,5 +1,12 @@
-export interface Bundle {
-  avatar: Buffer;
-  coverVk: Buffer;
-  coverX: Buffer;
+// Готовые изображения по имени шаблона (TemplateLayout.name)
+export type Bundle = Record<string, Buffer>;
+
+// Файл архива и подсказка для README, куда его ставить
+export interface BundleFile {
+  fileName: string;
+  data: Buffer;
+  description: string;
 }
+
+// Картинки, которые еще рисуются: каждую можно взять, как только она готова
+export type PendingBundle = Record<string, Promise<Buffer>>;
@@ -0,0 +1,104 @@
+// comment - ответы в ветке комментария, message - личное сообщение от сообщества
+export type DeliveryStrategy = 'comment' | 'message' | 'both';
+
+// Набор символов, из которых может состоять ник (пробелы разрешены всегда)
+export type NicknameAlphabet = 'latin' | 'cyrillic' | 'digits' | 'symbols';
+
+export type NicknameCase = 'keep' | 'upper' | 'lower';
+
+export interface NicknameRules {
+  // Регулярные выражения без флагов (всегда iu), ник - первая группа. Проверяются по порядку
+  patterns: string[];
+  // Длина в символах, а не в UTF-16
+  minLength: number;
+  maxLength: number;
+  // Пустой список - без ограничений, остальное проверяет наличие символов в шрифте
+  alphabets: NicknameAlphabet[];
+  // Ищутся без учета регистра в любом месте ника
+  bannedWords: string[];
+  letterCase: NicknameCase;
+}
+
+// Правила, по которым ник уходит на проверку администратору вместо рендера
+export interface ModerationRules {
+  // В отличие от bannedWords, такие ники не отклоняются сразу, а ждут решения
+  blocklist: string[];
+  // Смесь латиницы и кириллицы в одном слове - частый способ выдать себя за другого
+  holdMixedScripts: boolean;
+  holdLinks: boolean;
+}
+
+// Условия розыгрыша: что пользователь должен сделать, прежде чем получить бандл
+export interface EligibilityRules {
+  // Подписка на сообщество GROUP_ID
+  member: boolean;
+  // Лайк и репост поста акции
+  like: boolean;
+  repost: boolean;
+}
+
+export type EligibilityRequirement = keyof EligibilityRules;
+
+export type OutputFormat = 'png' | 'webp' | 'jpeg';
+
+// Файл архива: картинка одного из шаблонов в нужном размере и формате
+export interface BundleOutput {
+  // Суффикс имени файла
+  name: string;
+  // Имя шаблона (TemplateLayout.name), из которого получается картинка
+  layout: string;
+  format: OutputFormat;
+  // Если не заданы, берется размер шаблона
+  width?: number;
+  height?: number;
+  // cover - обрезать лишнее, contain - вписать целиком и залить поля цветом background
+  fit?: 'cover' | 'contain';
+  background?: string;
+  // Для webp и jpeg, от 1 до 100
+  quality?: number;
+  description?: string;
+}
+
+export interface CampaignMessages {
+  coversReady: string;
+  avatarReady: string;
+  // Текст личного сообщения со всеми файлами бандла
+  bundleReady: string;
+  // Ответ в комментариях, когда бандл ушел в личные сообщения
+  sentToMessages: string;
+  error: string;
+  // Плейсхолдер {characters} заменяется списком неподдерживаемых символов
+  unsupportedCharacters: string;
+  // Плейсхолдеры {nickname} и {reason} - ник и что в нем исправить
+  invalidNickname: string;
+  // Ответ в личных сообщениях, если ник не найден ни одним шаблоном
+  nicknameNotFound: string;
+  // Плейсхолдер {nickname}; ответы, пока ник ждет модератора и после отказа
+  moderationPending: string;
+  moderationRejected: string;
+  // Плейсхолдеры {nickname} и {missing} - ник и невыполненные условия розыгрыша
+  notEligible: string;
+}
+
+export interface Campaign {
+  id: string;
+  // Владелец стены; если не указан, пост ищется по id на любой стене
+  ownerId?: number;
+  postId: number;
+  // Файл с описанием шаблонов (TemplateLayout[]) в src/assets/layouts
+  layouts: string;
+  // Шрифт и цвет по умолчанию для шаблонов, где они не заданы
+  font: string;
+  // Шрифты для символов, которых нет в основном шрифте
+  fallbackFonts: string[];
+  textColor: string;
+  messages: CampaignMessages;
+  nickname: NicknameRules;
+  moderation: ModerationRules;
+  eligibility: EligibilityRules;
+  delivery: DeliveryStrategy;
+  // Файлы архива. Пустой список - каждый шаблон в PNG как есть
+  outputs: BundleOutput[];
+  // Плейсхолдер {nickname} заменяется ником
+  archiveName: string;
+}
@@ -0,0 +1,20 @@
+// Ответы бота на комментарий с ником. По ним бандл заменяется после правки
+// комментария и убирается, когда комментарий удален
+export interface CommentReplies {
+  // {owner_id}_{comment_id}, как id запроса в реестре
+  id: string;
+  ownerId: number;
+  postId: number;
+  commentId: number;
+  // Ник из последней версии комментария
+  nickname: string;
+  // Растет с каждой правкой ника; задачи для прошлых версий пропускаются
+  revision: number;
+  replyIds: number[];
+  // Документы из ответов, вида doc{owner_id}_{id}
+  docs: string[];
+  // Комментарий удален, новые ответы на него не нужны
+  deleted?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,41 @@
+import { BundleJobKind } from './bundle-job.type';
+
+// issued - бандл или превью отправлены, rejected - отказ до рендера, held - ник ждет модератора,
+// skipped - запрос больше не нужен, failed - попытка закончилась ошибкой и может повториться
+export type HistoryStatus =
+  | 'issued'
+  | 'rejected'
+  | 'held'
+  | 'skipped'
+  | 'failed';
+
+// Чем закончилась одна обработка запроса
+export interface RunOutcome {
+  status: HistoryStatus;
+  // Причина отказа, как в метрике bot_nicknames_rejected_total
+  reason?: string;
+  error?: string;
+  resultUrl?: string;
+  // Вложения из ответов бота: doc{owner_id}_{id} и photo{owner_id}_{id}
+  attachments?: string[];
+}
+
+// Запись истории: каждая попытка обработать запрос из очереди, включая повторы после ошибок
+export interface HistoryRecord extends RunOutcome {
+  id: string;
+  // {owner_id}_{comment_id} для комментариев или message_{from_id}_{message_id}
+  requestId: string;
+  // Задача в очереди; повторная отправка и перерисовка создают новые задачи
+  jobId?: string;
+  campaignId: string;
+  ownerId: number;
+  postId: number;
+  commentId?: number;
+  messageId?: number;
+  userId: number;
+  nickname: string;
+  kind: BundleJobKind;
+  photoUrl?: string;
+  startedAt: number;
+  finishedAt: number;
+}
@@ -0,0 +1,17 @@
+// Комментарий под постом независимо от источника: long poll или файл для dry-run
+export interface IncomingComment {
+  ownerId: number;
+  postId: number;
+  commentId: number;
+  fromId: number;
+  text: string;
+  // Самая большая копия первого приложенного фото
+  photoUrl?: string;
+}
+
+// Событие wall_reply_delete: от удаленного комментария известно только, где он был
+export interface DeletedComment {
+  ownerId: number;
+  postId: number;
+  commentId: number;
+}
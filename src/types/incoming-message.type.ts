@@ -0,0 +1,11 @@
+// Личное сообщение сообществу (событие message_new)
+export interface IncomingMessage {
+  messageId: number;
+  peerId: number;
+  fromId: number;
+  text: string;
+  // Самая большая копия первого приложенного фото
+  photoUrl?: string;
+  // Команда из payload кнопки клавиатуры, если сообщение отправлено кнопкой
+  command?: string;
+}
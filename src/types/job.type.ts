@@ -0,0 +1,12 @@
+export type JobStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface Job<T = unknown> {
+  id: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  runAt: number;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+}
@@ -0,0 +1,18 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  // У гистограмм значения идут под именами _bucket, _sum и _count
+  suffix?: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+// Метрика в формате экспозиции Prometheus: # HELP, # TYPE и значения
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: MetricSample[];
+}
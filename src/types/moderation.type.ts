@@ -0,0 +1,35 @@
+import { BundleJob } from './bundle-job.type';
+
+// blocklist - слово из списка акции, mixed-scripts - латиница и кириллица в одном слове,
+// link - ник похож на ссылку или упоминание
+export type ModerationReason = 'blocklist' | 'mixed-scripts' | 'link';
+
+export type ModerationAction = 'approve' | 'reject' | 'edit';
+
+export interface ModerationEntry {
+  // Короткий номер, который администратор пишет в командах
+  id: string;
+  // Ключ запроса, чтобы повтор задачи не создал вторую заявку
+  requestKey: string;
+  job: BundleJob;
+  reasons: ModerationReason[];
+  createdAt: number;
+}
+
+export interface ModerationDecision {
+  action: ModerationAction;
+  // Новый ник для edit
+  nickname?: string;
+}
+
+export interface AuditRecord {
+  at: number;
+  entryId: string;
+  action: 'hold' | ModerationAction;
+  // vk:<id> администратора, http для админского API, system для автоматических решений
+  actor: string;
+  userId: number;
+  nickname: string;
+  newNickname?: string;
+  reasons?: ModerationReason[];
+}
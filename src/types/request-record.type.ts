@@ -0,0 +1,14 @@
+export type RequestStatus = 'reserved' | 'issued';
+
+export interface RequestRecord {
+  id: string;
+  userId: number;
+  // Ник как его написал пользователь; сравнение идет без учета регистра
+  nickname: string;
+  postKey: string;
+  // Нужна, чтобы отправить бандл повторно; в старых записях отсутствует
+  campaignId?: string;
+  status: RequestStatus;
+  createdAt: number;
+  resultUrl?: string;
+}
@@ -0,0 +1,47 @@
+export type TextAnchor = 'start' | 'middle' | 'end';
+
+// Как текст прижимается к прямоугольнику по вертикали (по высоте заглавных букв)
+export type TextBaseline = 'top' | 'middle' | 'bottom';
+
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Место под фото пользователя. under - фото под шаблоном и видно через его
+// прозрачные области, over - поверх шаблона. Ник рисуется поверх фото в обоих случаях
+export interface PhotoSlot extends TextBox {
+  // circle - круг, вписанный в прямоугольник; mask - PNG в src/assets/templates,
+  // непрозрачные пиксели которого оставляют фото видимым
+  shape: 'rect' | 'circle' | 'mask';
+  mask?: string;
+  placement: 'under' | 'over';
+}
+
+export interface TemplateLayout {
+  // Ключ в бандле и суффикс имени файла
+  name: string;
+  // Куда ставить картинку, для README в архиве
+  description?: string;
+  template: string;
+  width: number;
+  height: number;
+  textBox: TextBox;
+  // Если не задано, фото пользователя в этом шаблоне не используется
+  photo?: PhotoSlot;
+  anchor: TextAnchor;
+  baseline: TextBaseline;
+  // Если не задано, берется из акции
+  font?: string;
+  color?: string;
+  fontSize: {
+    min: number;
+    max: number;
+  };
+  // В долях em
+  letterSpacing: number;
+  // В каком из двух ответов отправляется документ
+  reply: 'first' | 'second';
+}
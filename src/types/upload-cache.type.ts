@@ -0,0 +1,21 @@
+// comment - документы пользователя для ответов на стене, message - документы сообщества для личных сообщений
+export type AttachmentChannel = 'comment' | 'message';
+
+export interface CachedAttachments {
+  // Имя шаблона -> вложение вида doc{owner_id}_{id}
+  docs: Record<string, string>;
+  archive: string;
+}
+
+export interface UploadCacheEntry {
+  // sha256 от акции, версии оформления и ника
+  key: string;
+  campaignId: string;
+  templateVersion: string;
+  nickname: string;
+  // Имена шаблонов, для которых на диске лежат картинки
+  images: string[];
+  attachments: Partial<Record<AttachmentChannel, CachedAttachments>>;
+  createdAt: number;
+  usedAt: number;
+}
@@ -0,0 +1,8 @@
+// Событие Callback API: https://dev.vk.com/ru/api/callback/getting-started
+export interface VkCallbackEvent {
+  type: string;
+  object?: unknown;
+  group_id?: number;
+  event_id?: string;
+  secret?: string;
+}
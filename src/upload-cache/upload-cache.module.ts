@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { UploadCacheService } from './upload-cache.service';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [StorageModule],
+  providers: [UploadCacheService],
+  exports: [UploadCacheService],
+})
+export class UploadCacheModule {}
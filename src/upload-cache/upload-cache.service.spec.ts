@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UploadCacheService } from './upload-cache.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('UploadCacheService', () => {
+  let service: UploadCacheService;
+  let dataDir: string;
+
+  const images = {
+    cover: Buffer.from('cover'),
+    avatar: Buffer.from('avatar'),
+  };
+  const archive = Buffer.from('zip');
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadCacheService,
+        StorageService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir, ...config }),
+        },
+      ],
+    }).compile();
+
+    return module.get<UploadCacheService>(UploadCacheService);
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-cache-'));
+    service = await createService();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should return saved bundles with their attachments', async () => {
+    await expect(service.get('winter', 'v1', 'Neo')).resolves.toBeUndefined();
+
+    const key = await service.put('winter', 'v1', 'Neo', images, archive);
+    await service.setAttachments(key, 'comment', {
+      docs: { cover: 'doc1_1', avatar: 'doc1_2' },
+      archive: 'doc1_3',
+    });
+
+    // Новый экземпляр читает индекс и файлы с диска
+    const restarted = await createService();
+    await expect(restarted.get('winter', 'v1', 'Neo')).resolves.toEqual({
+      key,
+      images,
+      archive,
+      attachments: {
+        comment: {
+          docs: { cover: 'doc1_1', avatar: 'doc1_2' },
+          archive: 'doc1_3',
+        },
+      },
+    });
+    await expect(
+      restarted.get('winter', 'v1', 'Trinity'),
+    ).resolves.toBeUndefined();
+    await expect(restarted.get('summer', 'v1', 'Neo')).resolves.toBeUndefined();
+  });
+
+  it('should forget attachments with deleted docs', async () => {
+    const key = await service.put('winter', 'v1', 'Neo', images, archive);
+    await service.setAttachments(key, 'comment', {
+      docs: { cover: 'doc1_1', avatar: 'doc1_2' },
+      archive: 'doc1_3',
+    });
+    await service.setAttachments(key, 'message', {
+      docs: { cover: 'doc-1_4', avatar: 'doc-1_5' },
+      archive: 'doc-1_6',
+    });
+
+    await service.forgetDocs(['doc1_3']);
+
+    const cached = await service.get('winter', 'v1', 'Neo');
+    expect(cached?.images).toEqual(images);
+    expect(cached?.attachments).toEqual({
+      message: {
+        docs: { cover: 'doc-1_4', avatar: 'doc-1_5' },
+        archive: 'doc-1_6',
+      },
+    });
+  });
+
+  it('should drop bundles of a campaign when its templates change', async () => {
+    const key = await service.put('winter', 'v1', 'Neo', images, archive);
+    await service.put('summer', 'v1', 'Neo', images, archive);
+
+    await expect(service.get('winter', 'v2', 'Neo')).resolves.toBeUndefined();
+    await expect(
+      fs.stat(path.join(dataDir, 'upload-cache', key)),
+    ).rejects.toThrow();
+    await expect(service.get('summer', 'v1', 'Neo')).resolves.toBeDefined();
+  });
+
+  it('should evict the least recently used bundles', async () => {
+    service = await createService({ UPLOAD_CACHE_MAX_ENTRIES: '2' });
+    const now = jest.spyOn(Date, 'now');
+
+    now.mockReturnValue(1);
+    await service.put('winter', 'v1', 'Neo', images, archive);
+    now.mockReturnValue(2);
+    await service.put('winter', 'v1', 'Trinity', images, archive);
+    now.mockReturnValue(3);
+    await service.get('winter', 'v1', 'Neo');
+    now.mockReturnValue(4);
+    await service.put('winter', 'v1', 'Morpheus', images, archive);
+
+    await expect(
+      service.get('winter', 'v1', 'Trinity'),
+    ).resolves.toBeUndefined();
+    await expect(service.get('winter', 'v1', 'Neo')).resolves.toBeDefined();
+    await expect(
+      service.get('winter', 'v1', 'Morpheus'),
+    ).resolves.toBeDefined();
+  });
+
+  it('should not cache anything when disabled', async () => {
+    service = await createService({ UPLOAD_CACHE_MAX_ENTRIES: '0' });
+
+    await service.put('winter', 'v1', 'Neo', images, archive);
+
+    await expect(service.get('winter', 'v1', 'Neo')).resolves.toBeUndefined();
+    await expect(fs.stat(path.join(dataDir, 'upload-cache'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { StorageService } from '../storage/storage.service';
+import { Bundle } from '../types/bundle.type';
+import {
+  AttachmentChannel,
+  CachedAttachments,
+  UploadCacheEntry,
+} from '../types/upload-cache.type';
+
+const INDEX_FILE = 'upload-cache.json';
+const FILES_DIR = 'upload-cache';
+
+export interface CachedBundle {
+  key: string;
+  images: Bundle;
+  archive: Buffer;
+  attachments: Partial<Record<AttachmentChannel, CachedAttachments>>;
+}
+
+/**
+ * Кэш готовых бандлов: картинки и архив на диске, вложения VK в индексе.
+ * Ключ зависит от версии оформления, поэтому после правки шаблонов старые записи
+ * не находятся и удаляются при следующем обращении к акции.
+ */
+@Injectable()
+export class UploadCacheService {
+  #storage: StorageService;
+  #entries?: Promise<Map<string, UploadCacheEntry>>;
+  #maxEntries: number;
+
+  constructor(configService: ConfigService, storage: StorageService) {
+    this.#storage = storage;
+    // 0 выключает кэш
+    this.#maxEntries = Number(
+      configService.get<string>('UPLOAD_CACHE_MAX_ENTRIES') ?? 500,
+    );
+  }
+
+  async get(
+    campaignId: string,
+    templateVersion: string,
+    nickname: string,
+  ): Promise<CachedBundle | undefined> {
+    if (this.#maxEntries <= 0) {
+      return undefined;
+    }
+
+    await this.#invalidate(campaignId, templateVersion);
+
+    const entries = await this.#load();
+    const key = this.#key(campaignId, templateVersion, nickname);
+    const entry = entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    try {
+      const images: Bundle = {};
+      for (const name of entry.images) {
+        images[name] = await fs.readFile(this.#file(key, `${name}.png`));
+      }
+      const archive = await fs.readFile(this.#file(key, 'archive.zip'));
+
+      entry.usedAt = Date.now();
+      await this.#save(entries);
+      return { key, images, archive, attachments: entry.attachments };
+    } catch (error) {
+      // Файлы могли удалить вручную - просто рисуем заново
+      console.warn(`Запись кэша ${key} повреждена:`, error.message);
+      await this.#remove(entries, key);
+      return undefined;
+    }
+  }
+
+  /**
+   * Сохраняет отрисованный бандл и возвращает его ключ.
+   */
+  async put(
+    campaignId: string,
+    templateVersion: string,
+    nickname: string,
+    images: Bundle,
+    archive: Buffer,
+  ): Promise<string> {
+    const key = this.#key(campaignId, templateVersion, nickname);
+    if (this.#maxEntries <= 0) {
+      return key;
+    }
+
+    await fs.mkdir(this.#file(key), { recursive: true });
+    for (const [name, image] of Object.entries(images)) {
+      await fs.writeFile(this.#file(key, `${name}.png`), image);
+    }
+    await fs.writeFile(this.#file(key, 'archive.zip'), archive);
+
+    const entries = await this.#load();
+    const now = Date.now();
+    entries.set(key, {
+      key,
+      campaignId,
+      templateVersion,
+      nickname,
+      images: Object.keys(images),
+      attachments: entries.get(key)?.attachments ?? {},
+      createdAt: now,
+      usedAt: now,
+    });
+    await this.#evict(entries);
+    await this.#save(entries);
+    return key;
+  }
+
+  async setAttachments(
+    key: string,
+    channel: AttachmentChannel,
+    attachments: CachedAttachments,
+  ): Promise<void> {
+    const entries = await this.#load();
+    const entry = entries.get(key);
+    if (!entry) {
+      return;
+    }
+
+    entry.attachments[channel] = attachments;
+    await this.#save(entries);
+  }
+
+  /**
+   * Забывает вложения, в которых есть удаленные из VK документы.
+   * Картинки остаются, при следующем запросе файлы загрузятся заново.
+   */
+  async forgetDocs(docs: string[]): Promise<void> {
+    const entries = await this.#load();
+    let changed = false;
+
+    for (const entry of entries.values()) {
+      for (const [channel, attachments] of Object.entries(entry.attachments)) {
+        const used = [...Object.values(attachments.docs), attachments.archive];
+        if (used.some((doc) => docs.includes(doc))) {
+          delete entry.attachments[channel as AttachmentChannel];
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) {
+      await this.#save(entries);
+    }
+  }
+
+  #invalidate = async (
+    campaignId: string,
+    templateVersion: string,
+  ): Promise<void> => {
+    const entries = await this.#load();
+    const stale = [...entries.values()].filter(
+      (entry) =>
+        entry.campaignId === campaignId &&
+        entry.templateVersion !== templateVersion,
+    );
+    if (!stale.length) {
+      return;
+    }
+
+    console.log(
+      `Оформление акции ${campaignId} изменилось, удаляем из кэша ${stale.length} бандлов`,
+    );
+    for (const entry of stale) {
+      await this.#remove(entries, entry.key);
+    }
+  };
+
+  // Самые давно не использованные записи уходят первыми
+  #evict = async (entries: Map<string, UploadCacheEntry>): Promise<void> => {
+    const overflow = entries.size - this.#maxEntries;
+    if (overflow <= 0) {
+      return;
+    }
+
+    const oldest = [...entries.values()]
+      .sort((a, b) => a.usedAt - b.usedAt)
+      .slice(0, overflow);
+    for (const entry of oldest) {
+      await this.#remove(entries, entry.key);
+    }
+  };
+
+  #remove = async (
+    entries: Map<string, UploadCacheEntry>,
+    key: string,
+  ): Promise<void> => {
+    entries.delete(key);
+    await fs.rm(this.#file(key), { recursive: true, force: true });
+    await this.#save(entries);
+  };
+
+  #key = (campaignId: string, templateVersion: string, nickname: string) => {
+    return createHash('sha256')
+      .update(JSON.stringify([campaignId, templateVersion, nickname]))
+      .digest('hex');
+  };
+
+  #file = (key: string, name = ''): string => {
+    return path.join(this.#storage.resolve(FILES_DIR), key, name);
+  };
+
+  #load = (): Promise<Map<string, UploadCacheEntry>> => {
+    this.#entries ??= this.#storage
+      .read<UploadCacheEntry[]>(INDEX_FILE, [])
+      .then((entries) => new Map(entries.map((entry) => [entry.key, entry])));
+    return this.#entries;
+  };
+
+  #save = async (entries: Map<string, UploadCacheEntry>): Promise<void> => {
+    await this.#storage.write(INDEX_FILE, [...entries.values()]);
+  };
+}
@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as os from 'os';
+import * as path from 'path';
+import { CatchUpService } from './catch-up.service';
+import { VkGateway } from './vk-gateway';
+import { FakeVkGateway } from './fake-vk.gateway';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { NicknameService } from '../nickname/nickname.service';
+
+describe('CatchUpService', () => {
+  let gateway: FakeVkGateway;
+
+  const now = Math.floor(Date.now() / 1000);
+  const hoursAgo = (hours: number) => now - hours * 60 * 60;
+  const userComment = (
+    id: number,
+    text: string,
+    date: number,
+    replyTo?: number,
+  ) => ({
+    id,
+    from_id: id + 1000,
+    owner_id: -1,
+    post_id: 10,
+    text,
+    date,
+    reply_to_comment: replyTo,
+  });
+  const botReply = (commentId: number) =>
+    gateway.createComment({
+      owner_id: -1,
+      post_id: 10,
+      reply_to_comment: commentId,
+      from_group: 1,
+      message: 'Ваш бандл готов!',
+    });
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CatchUpService,
+        CampaignsService,
+        NicknameService,
+        { provide: VkGateway, useValue: gateway },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            CAMPAIGNS_PATH: path.join(os.tmpdir(), 'catch-up-missing.json'),
+            TARGET_POST_ID: '10',
+            GROUP_ID: '-1',
+            ...config,
+          }),
+        },
+      ],
+    }).compile();
+    await module.get(CampaignsService).onModuleInit();
+    return module.get(CatchUpService);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    gateway = new FakeVkGateway();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should find unanswered nickname comments in order, including threads', async () => {
+    gateway.wallComments.push(
+      userComment(101, 'ник Neo', hoursAgo(3)),
+      userComment(102, 'ник Trinity', hoursAgo(2)),
+      userComment(103, 'Отличный пост', hoursAgo(1)),
+      userComment(104, 'ник Morpheus', hoursAgo(0.5), 103),
+      userComment(105, 'ник Smith', hoursAgo(48)),
+    );
+    await botReply(101);
+
+    const service = await createService();
+
+    await expect(service.findMissed()).resolves.toEqual([
+      {
+        ownerId: -1,
+        postId: 10,
+        commentId: 102,
+        fromId: 1102,
+        text: 'ник Trinity',
+      },
+      {
+        ownerId: -1,
+        postId: 10,
+        commentId: 104,
+        fromId: 1104,
+        text: 'ник Morpheus',
+      },
+    ]);
+  });
+
+  it('should read long threads page by page to find bot replies', async () => {
+    gateway.wallComments.push(userComment(101, 'Обсуждение', hoursAgo(2)));
+    for (let id = 102; id <= 113; id++) {
+      gateway.wallComments.push(
+        userComment(id, `ник Player${id}`, hoursAgo(1), 101),
+      );
+    }
+    for (let id = 102; id <= 112; id++) {
+      await botReply(id);
+    }
+
+    const service = await createService();
+    const missed = await service.findMissed();
+
+    expect(missed.map((comment) => comment.commentId)).toEqual([113]);
+    expect(
+      gateway.calls
+        .filter((call) => call.method === 'wall.getComments')
+        .map((call) => (call.params as { comment_id?: number }).comment_id),
+    ).toEqual([undefined, 101]);
+  });
+
+  it('should be disabled with CATCH_UP_HOURS=0', async () => {
+    gateway.wallComments.push(userComment(101, 'ник Neo', hoursAgo(1)));
+
+    const service = await createService({ CATCH_UP_HOURS: '0' });
+
+    await expect(service.findMissed()).resolves.toEqual([]);
+    expect(gateway.calls).toEqual([]);
+  });
+});
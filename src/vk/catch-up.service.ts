@@ -0,0 +1,165 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { NicknameService } from '../nickname/nickname.service';
+import { IncomingComment } from '../types/incoming-comment.type';
+import { Campaign } from '../types/campaign.type';
+import { VkGateway } from './vk-gateway';
+import { toIncomingComment, VkComment } from './incoming-comment';
+
+// Максимум wall.getComments за один запрос
+const PAGE_SIZE = 100;
+// Ответы, которые VK отдает вместе с корневым комментарием; длинные ветки дочитываются отдельно
+const THREAD_ITEMS = 10;
+
+// Комментарий и корень его ветки: ответ бота на корень может прийти без reply_to_comment
+interface ThreadedComment {
+  comment: VkComment;
+  rootId: number;
+}
+
+/**
+ * Находит комментарии с ником, оставленные, пока бот не работал: long poll
+ * и Callback API присылают только новые события.
+ */
+@Injectable()
+export class CatchUpService {
+  #groupId: number;
+  #hours: number;
+  #maxComments: number;
+
+  constructor(
+    configService: ConfigService,
+    private readonly vkGateway: VkGateway,
+    private readonly campaignsService: CampaignsService,
+    private readonly nicknameService: NicknameService,
+  ) {
+    this.#groupId = Math.abs(Number(configService.get<string>('GROUP_ID')));
+    // 0 - не догонять
+    this.#hours = Number(configService.get<string>('CATCH_UP_HOURS') || 24);
+    // Сколько корневых комментариев поста просматривать, от новых к старым
+    this.#maxComments = Number(
+      configService.get<string>('CATCH_UP_MAX_COMMENTS') || 1000,
+    );
+  }
+
+  /**
+   * Комментарии с ником за последние CATCH_UP_HOURS часов, на которые сообщество
+   * еще не ответило, в порядке написания.
+   */
+  async findMissed(): Promise<IncomingComment[]> {
+    if (this.#hours <= 0) {
+      return [];
+    }
+
+    const since = Math.floor(Date.now() / 1000) - this.#hours * 60 * 60;
+    const missed: VkComment[] = [];
+    for (const campaign of this.campaignsService.getAll()) {
+      try {
+        missed.push(...(await this.#findInPost(campaign, since)));
+      } catch (error) {
+        console.error(
+          `Не удалось прочитать комментарии к посту акции ${campaign.id}:`,
+          error.message,
+        );
+      }
+    }
+
+    return missed
+      .sort((a, b) => (a.date ?? 0) - (b.date ?? 0) || a.id - b.id)
+      .map((comment) => toIncomingComment(comment))
+      .filter((comment): comment is IncomingComment => Boolean(comment));
+  }
+
+  #findInPost = async (
+    campaign: Campaign,
+    since: number,
+  ): Promise<VkComment[]> => {
+    const ownerId = campaign.ownerId ?? -this.#groupId;
+    const comments = await this.#readPost(ownerId, campaign.postId, since);
+
+    const answered = new Set(
+      comments
+        .filter(({ comment }) => comment.from_id === -this.#groupId)
+        .map(({ comment, rootId }) => comment.reply_to_comment ?? rootId),
+    );
+
+    return comments
+      .map(({ comment }) => ({
+        ...comment,
+        owner_id: ownerId,
+        post_id: campaign.postId,
+      }))
+      .filter(
+        (comment) =>
+          (comment.from_id ?? 0) > 0 &&
+          (comment.date ?? 0) >= since &&
+          !answered.has(comment.id) &&
+          this.nicknameService.extract(comment.text ?? '', campaign.nickname),
+      );
+  };
+
+  // Корневые комментарии идут от новых к старым, поэтому листаем, пока не выйдем за окно.
+  // Ответы в ветках старых комментариев не просматриваются
+  #readPost = async (
+    ownerId: number,
+    postId: number,
+    since: number,
+  ): Promise<ThreadedComment[]> => {
+    const comments: ThreadedComment[] = [];
+
+    for (let offset = 0; offset < this.#maxComments; offset += PAGE_SIZE) {
+      const page = await this.vkGateway.getComments({
+        owner_id: ownerId,
+        post_id: postId,
+        offset,
+        count: PAGE_SIZE,
+        sort: 'desc',
+        thread_items_count: THREAD_ITEMS,
+      });
+
+      for (const comment of page.items) {
+        const { thread } = comment;
+        const replies =
+          thread && thread.count > (thread.items?.length ?? 0)
+            ? await this.#readThread(ownerId, postId, comment.id)
+            : (thread?.items ?? []);
+
+        comments.push(
+          { comment, rootId: comment.id },
+          ...replies.map((reply) => ({ comment: reply, rootId: comment.id })),
+        );
+      }
+
+      const oldest = page.items[page.items.length - 1];
+      if (page.items.length < PAGE_SIZE || (oldest?.date ?? 0) < since) {
+        break;
+      }
+    }
+
+    return comments;
+  };
+
+  #readThread = async (
+    ownerId: number,
+    postId: number,
+    commentId: number,
+  ): Promise<VkComment[]> => {
+    const replies: VkComment[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.vkGateway.getComments({
+        owner_id: ownerId,
+        post_id: postId,
+        comment_id: commentId,
+        offset,
+        count: PAGE_SIZE,
+      });
+      replies.push(...page.items);
+
+      if (page.items.length < PAGE_SIZE) {
+        return replies;
+      }
+    }
+  };
+}
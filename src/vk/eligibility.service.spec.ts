@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EligibilityService } from './eligibility.service';
+import { VkGateway } from './vk-gateway';
+import { FakeVkGateway } from './fake-vk.gateway';
+import { StorageService } from '../storage/storage.service';
+import { Campaign, EligibilityRules } from '../types/campaign.type';
+import { BundleJob } from '../types/bundle-job.type';
+
+describe('EligibilityService', () => {
+  let service: EligibilityService;
+  let gateway: FakeVkGateway;
+
+  const campaign = (eligibility: Partial<EligibilityRules>) =>
+    ({
+      id: 'winter',
+      postId: 10,
+      eligibility: {
+        member: false,
+        like: false,
+        repost: false,
+        ...eligibility,
+      },
+    }) as Campaign;
+
+  const job = (fromId: number, nickname: string): BundleJob => ({
+    campaignId: 'winter',
+    ownerId: -1,
+    postId: 10,
+    commentId: fromId * 10,
+    fromId,
+    nickname,
+  });
+
+  beforeEach(async () => {
+    gateway = new FakeVkGateway();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EligibilityService,
+        { provide: VkGateway, useValue: gateway },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ GROUP_ID: '-1' }),
+        },
+        {
+          provide: StorageService,
+          useValue: {
+            read: (_name: string, fallback: unknown) =>
+              Promise.resolve(fallback),
+            write: () => Promise.resolve(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EligibilityService>(EligibilityService);
+  });
+
+  it('should not ask VK when a campaign has no conditions', async () => {
+    await expect(service.findMissing(campaign({}), 7)).resolves.toEqual([]);
+    expect(gateway.calls).toEqual([]);
+  });
+
+  it('should list the conditions a user has not met', async () => {
+    const rules = campaign({ member: true, like: true, repost: true });
+
+    await expect(service.findMissing(rules, 7)).resolves.toEqual([
+      'member',
+      'like',
+      'repost',
+    ]);
+    expect(gateway.calls).toEqual([
+      { method: 'groups.isMember', params: { group_id: 1, user_id: 7 } },
+      {
+        method: 'likes.isLiked',
+        params: { user_id: 7, type: 'post', owner_id: -1, item_id: 10 },
+      },
+    ]);
+
+    gateway.members.add(7);
+    gateway.likes.add(7);
+    await expect(service.findMissing(rules, 7)).resolves.toEqual(['repost']);
+  });
+
+  it('should keep the latest waiting request per user and campaign', async () => {
+    await service.wait(job(7, 'Nea'));
+    await service.wait(job(7, 'Neo'));
+    await service.wait(job(8, 'Trinity'));
+    await service.forget(job(8, 'Trinity'));
+
+    await expect(service.takeWaiting(7)).resolves.toEqual([job(7, 'Neo')]);
+    await expect(service.takeWaiting(7)).resolves.toEqual([]);
+    await expect(service.takeWaiting(8)).resolves.toEqual([]);
+  });
+});
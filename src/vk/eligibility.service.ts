@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService } from '../storage/storage.service';
+import { BundleJob } from '../types/bundle-job.type';
+import { Campaign, EligibilityRequirement } from '../types/campaign.type';
+import { VkGateway } from './vk-gateway';
+
+const WAITING_FILE = 'eligibility.json';
+
+/**
+ * Условия розыгрыша. Запрос пользователя, который их еще не выполнил,
+ * запоминается и проверяется снова, когда он напишет еще раз.
+ */
+@Injectable()
+export class EligibilityService {
+  #groupId: number;
+  #storage: StorageService;
+  // {campaignId}_{userId} -> последний запрос, который ждет выполнения условий
+  #waiting?: Promise<Record<string, BundleJob>>;
+
+  constructor(
+    configService: ConfigService,
+    storage: StorageService,
+    private readonly vkGateway: VkGateway,
+  ) {
+    this.#groupId = Math.abs(Number(configService.get<string>('GROUP_ID')));
+    this.#storage = storage;
+  }
+
+  /**
+   * Условия акции, которые пользователь еще не выполнил.
+   */
+  async findMissing(
+    campaign: Campaign,
+    userId: number,
+  ): Promise<EligibilityRequirement[]> {
+    const { member, like, repost } = campaign.eligibility;
+    const missing: EligibilityRequirement[] = [];
+
+    if (
+      member &&
+      !(await this.vkGateway.isMember({
+        group_id: this.#groupId,
+        user_id: userId,
+      }))
+    ) {
+      missing.push('member');
+    }
+
+    if (like || repost) {
+      const status = await this.vkGateway.isLiked({
+        user_id: userId,
+        type: 'post',
+        owner_id: campaign.ownerId ?? -this.#groupId,
+        item_id: campaign.postId,
+      });
+      if (like && !status.liked) {
+        missing.push('like');
+      }
+      if (repost && !status.copied) {
+        missing.push('repost');
+      }
+    }
+
+    return missing;
+  }
+
+  /**
+   * Запоминает запрос до следующей проверки. Более новый запрос того же
+   * пользователя в той же акции заменяет прежний.
+   */
+  async wait(job: BundleJob): Promise<void> {
+    const waiting = await this.#load();
+    waiting[this.#key(job)] = job;
+    await this.#save(waiting);
+  }
+
+  /**
+   * Условия выполнены, ждать больше нечего.
+   */
+  async forget(job: BundleJob): Promise<void> {
+    const waiting = await this.#load();
+    if (this.#key(job) in waiting) {
+      delete waiting[this.#key(job)];
+      await this.#save(waiting);
+    }
+  }
+
+  /**
+   * Забирает все запросы пользователя, чтобы проверить их снова.
+   */
+  async takeWaiting(userId: number): Promise<BundleJob[]> {
+    const waiting = await this.#load();
+    const jobs = Object.entries(waiting).filter(
+      ([, job]) => job.fromId === userId,
+    );
+    if (!jobs.length) {
+      return [];
+    }
+
+    for (const [key] of jobs) {
+      delete waiting[key];
+    }
+    await this.#save(waiting);
+    return jobs.map(([, job]) => job);
+  }
+
+  #key = (job: BundleJob): string => {
+    return `${job.campaignId}_${job.fromId}`;
+  };
+
+  #load = (): Promise<Record<string, BundleJob>> => {
+    this.#waiting ??= this.#storage.read<Record<string, BundleJob>>(
+      WAITING_FILE,
+      {},
+    );
+    return this.#waiting;
+  };
+
+  #save = (waiting: Record<string, BundleJob>): Promise<void> => {
+    return this.#storage.write(WAITING_FILE, waiting);
+  };
+}
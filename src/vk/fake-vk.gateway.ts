@@ -0,0 +1,487 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { Params } from 'vk-io';
+import {
+  DeletedComment,
+  IncomingComment,
+} from '../types/incoming-comment.type';
+import { IncomingMessage } from '../types/incoming-message.type';
+import { VkCallbackEvent } from '../types/vk-callback-event.type';
+import {
+  toIncomingComment,
+  VkComment,
+  VkCommentsPage,
+} from './incoming-comment';
+import { findPhotoUrl } from './photo-attachment';
+import {
+  CommentDeleteHandler,
+  CommentHandler,
+  GatewayHealth,
+  LikeStatus,
+  MessageHandler,
+  SavedDocument,
+  SavedPhoto,
+  UploadServer,
+  VkActor,
+  VkGateway,
+} from './vk-gateway';
+
+export interface UploadedFile {
+  fileName: string;
+  data: Buffer;
+}
+
+export interface FakeComment {
+  id: number;
+  ownerId?: number;
+  postId: number;
+  replyTo?: number;
+  fromGroup?: number;
+  message?: string;
+  attachments: string[];
+}
+
+export interface FakeMessage {
+  id: number;
+  peerId?: number;
+  message?: string;
+  attachments: string[];
+}
+
+// Документы загружаются пользовательским токеном и принадлежат пользователю
+const FAKE_USER_ID = 1;
+// Для dry-run GROUP_ID можно не задавать
+const FAKE_GROUP_ID = 1;
+
+/**
+ * VK в памяти процесса. Файлы принимает локальный HTTP-сервер, поэтому код загрузки
+ * в VkService работает как с настоящим VK. Все вызовы и ответы доступны для проверок.
+ */
+@Injectable()
+export class FakeVkGateway extends VkGateway implements OnModuleDestroy {
+  readonly enabled: boolean = true;
+
+  readonly calls: { method: string; params: object }[] = [];
+  readonly comments: FakeComment[] = [];
+  readonly messages: FakeMessage[] = [];
+  // Пользователи, которые не разрешили сообщения от сообщества
+  readonly blockedPeers = new Set<number>();
+  // Подписчики сообщества и пользователи, которые лайкнули или репостнули любой пост
+  readonly members = new Set<number>();
+  readonly likes = new Set<number>();
+  readonly reposts = new Set<number>();
+  // Вложение вида doc1_2 -> загруженный файл
+  readonly files = new Map<string, UploadedFile>();
+  // Комментарии пользователей для wall.getComments; ответы бота добавляются к ним сами
+  readonly wallComments: VkComment[] = [];
+  // Что вернет checkHealth; тесты могут изобразить сбой
+  readonly health: GatewayHealth = {
+    transport: 'fake',
+    receiving: true,
+    tokens: { group: { valid: true }, user: { valid: true } },
+  };
+
+  #lastId = 0;
+  #uploads = new Map<string, UploadedFile>();
+  #commentHandlers: CommentHandler[] = [];
+  #commentEditHandlers: CommentHandler[] = [];
+  #commentDeleteHandlers: CommentDeleteHandler[] = [];
+  #messageHandlers: MessageHandler[] = [];
+  #server?: http.Server;
+  #baseUrl?: Promise<string>;
+
+  onModuleDestroy() {
+    this.#server?.close();
+  }
+
+  async getMessagesPhotoUploadServer(
+    params: Params.PhotosGetMessagesUploadServerParams,
+  ): Promise<UploadServer> {
+    await this.record('photos.getMessagesUploadServer', params);
+    return { upload_url: `${await this.#listen()}/upload/photo` };
+  }
+
+  async saveMessagesPhoto(
+    params: Params.PhotosSaveMessagesPhotoParams,
+  ): Promise<SavedPhoto[]> {
+    await this.record('photos.saveMessagesPhoto', params);
+    const photo = { id: this.#nextId(), owner_id: -FAKE_GROUP_ID };
+    await this.saveFile(
+      `photo${photo.owner_id}_${photo.id}`,
+      this.#takeUpload(params.photo),
+    );
+    return [photo];
+  }
+
+  async getMessagesUploadServer(
+    params: Params.DocsGetMessagesUploadServerParams,
+  ): Promise<UploadServer> {
+    await this.record('docs.getMessagesUploadServer', params);
+    return { upload_url: `${await this.#listen()}/upload/doc` };
+  }
+
+  async saveDocument(
+    params: Params.DocsSaveParams,
+    actor: VkActor = 'user',
+  ): Promise<SavedDocument> {
+    await this.record('docs.save', params);
+    const doc = {
+      id: this.#nextId(),
+      owner_id: actor === 'group' ? -FAKE_GROUP_ID : FAKE_USER_ID,
+    };
+    const upload = this.#takeUpload(params.file);
+    await this.saveFile(`doc${doc.owner_id}_${doc.id}`, {
+      fileName: params.title ?? upload.fileName,
+      data: upload.data,
+    });
+    return { type: 'doc', doc };
+  }
+
+  async createComment(
+    params: Params.WallCreateCommentParams,
+  ): Promise<{ comment_id: number }> {
+    await this.record('wall.createComment', params);
+    const comment: FakeComment = {
+      id: this.#nextId(),
+      ownerId: params.owner_id,
+      postId: params.post_id,
+      replyTo: params.reply_to_comment,
+      fromGroup: params.from_group,
+      message: params.message,
+      attachments: this.#parseAttachments(params.attachments),
+    };
+    await this.saveComment(comment);
+    return { comment_id: comment.id };
+  }
+
+  /**
+   * Как в VK: без comment_id - корневые комментарии с первыми ответами веток,
+   * с comment_id - ответы в ветке этого комментария.
+   */
+  async getComments(
+    params: Params.WallGetCommentsParams,
+  ): Promise<VkCommentsPage> {
+    await this.record('wall.getComments', params);
+    const all = [
+      ...this.wallComments,
+      ...this.comments.map((comment) => ({
+        id: comment.id,
+        from_id: -(comment.fromGroup ?? FAKE_GROUP_ID),
+        owner_id: comment.ownerId,
+        post_id: comment.postId,
+        text: comment.message,
+        reply_to_comment: comment.replyTo,
+      })),
+    ].filter(
+      (comment) =>
+        comment.owner_id === params.owner_id &&
+        comment.post_id === params.post_id,
+    );
+    const rootOf = (comment: VkComment): number => {
+      const parent = all.find((item) => item.id === comment.reply_to_comment);
+      return parent ? rootOf(parent) : comment.id;
+    };
+    const threadOf = (id: number) =>
+      all.filter((item) => item.id !== id && rootOf(item) === id);
+
+    let items = params.comment_id
+      ? threadOf(params.comment_id)
+      : all.filter((comment) => rootOf(comment) === comment.id);
+    items.sort((a, b) => a.id - b.id);
+    if (params.sort === 'desc') {
+      items.reverse();
+    }
+    const count = items.length;
+    const offset = params.offset ?? 0;
+    items = items.slice(offset, offset + (params.count ?? 10));
+
+    const threadItems = params.thread_items_count ?? 0;
+    return {
+      count,
+      items: items.map((comment) => {
+        if (params.comment_id) {
+          return comment;
+        }
+        const thread = threadOf(comment.id);
+        return {
+          ...comment,
+          thread: {
+            count: thread.length,
+            items: thread.slice(0, threadItems),
+          },
+        };
+      }),
+    };
+  }
+
+  async deleteComment(params: Params.WallDeleteCommentParams): Promise<void> {
+    await this.record('wall.deleteComment', params);
+    const index = this.comments.findIndex(
+      (comment) =>
+        comment.id === params.comment_id && comment.ownerId === params.owner_id,
+    );
+    if (index === -1) {
+      throw Object.assign(new Error('Access to comment denied'), {
+        code: 211,
+      });
+    }
+    this.comments.splice(index, 1);
+  }
+
+  async deleteDocument(params: Params.DocsDeleteParams): Promise<void> {
+    await this.record('docs.delete', params);
+    const attachment = `doc${params.owner_id}_${params.doc_id}`;
+    if (!this.files.delete(attachment)) {
+      throw Object.assign(new Error('Document not found'), { code: 1150 });
+    }
+  }
+
+  async isMember(params: Params.GroupsIsMemberParams): Promise<boolean> {
+    await this.record('groups.isMember', params);
+    return this.members.has(params.user_id ?? 0);
+  }
+
+  async isLiked(params: Params.LikesIsLikedParams): Promise<LikeStatus> {
+    await this.record('likes.isLiked', params);
+    const userId = params.user_id ?? 0;
+    return { liked: this.likes.has(userId), copied: this.reposts.has(userId) };
+  }
+
+  async sendMessage(params: Params.MessagesSendParams): Promise<number> {
+    await this.record('messages.send', params);
+    if (this.blockedPeers.has(params.peer_id ?? 0)) {
+      throw Object.assign(
+        new Error("Can't send messages for users without permission"),
+        { code: 901 },
+      );
+    }
+
+    const message: FakeMessage = {
+      id: this.#nextId(),
+      peerId: params.peer_id,
+      message: params.message,
+      // У messages.send параметр называется attachment, в отличие от wall.createComment
+      attachments: this.#parseAttachments(params.attachment as string),
+    };
+    await this.saveMessage(message);
+    return message.id;
+  }
+
+  onComment(handler: CommentHandler): void {
+    this.#commentHandlers.push(handler);
+  }
+
+  onCommentEdit(handler: CommentHandler): void {
+    this.#commentEditHandlers.push(handler);
+  }
+
+  onCommentDelete(handler: CommentDeleteHandler): void {
+    this.#commentDeleteHandlers.push(handler);
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.#messageHandlers.push(handler);
+  }
+
+  async handleUpdate(event: VkCallbackEvent): Promise<void> {
+    const comment =
+      event.type === 'wall_reply_new' || event.type === 'wall_reply_edit'
+        ? toIncomingComment(event.object as VkComment)
+        : undefined;
+    // Как и боевой шлюз, комментарии от имени сообщества дальше не передаем
+    if (comment && comment.fromId > 0) {
+      if (event.type === 'wall_reply_edit') {
+        await this.emitCommentEdit(comment);
+      } else {
+        await this.emitComment(comment);
+      }
+    }
+
+    // У wall_reply_delete нет текста: только owner_id, id, post_id и deleter_id
+    const deleted =
+      event.type === 'wall_reply_delete'
+        ? (event.object as Partial<VkComment>)
+        : undefined;
+    if (deleted?.id && deleted.owner_id && deleted.post_id) {
+      await this.emitCommentDelete({
+        ownerId: deleted.owner_id,
+        postId: deleted.post_id,
+        commentId: deleted.id,
+      });
+    }
+
+    // В Callback API начиная с версии 5.103 сообщение лежит в object.message
+    const message =
+      event.type === 'message_new'
+        ? (event.object as { message?: Record<string, any> })?.message
+        : undefined;
+    if (message && !message.out) {
+      await this.emitMessage({
+        messageId: message.id,
+        peerId: message.peer_id,
+        fromId: message.from_id,
+        text: message.text ?? '',
+        command: this.#parsePayload(message.payload)?.command,
+        photoUrl: findPhotoUrl(message.attachments),
+      });
+    }
+  }
+
+  async start(): Promise<void> {}
+
+  checkHealth(): Promise<GatewayHealth> {
+    return Promise.resolve(structuredClone(this.health));
+  }
+
+  /**
+   * Имитирует событие wall_reply_new.
+   */
+  async emitComment(comment: IncomingComment): Promise<void> {
+    for (const handler of this.#commentHandlers) {
+      await handler(comment);
+    }
+  }
+
+  /**
+   * Имитирует событие wall_reply_edit.
+   */
+  async emitCommentEdit(comment: IncomingComment): Promise<void> {
+    for (const handler of this.#commentEditHandlers) {
+      await handler(comment);
+    }
+  }
+
+  /**
+   * Имитирует событие wall_reply_delete.
+   */
+  async emitCommentDelete(comment: DeletedComment): Promise<void> {
+    for (const handler of this.#commentDeleteHandlers) {
+      await handler(comment);
+    }
+  }
+
+  /**
+   * Имитирует входящее личное сообщение (message_new).
+   */
+  async emitMessage(message: IncomingMessage): Promise<void> {
+    for (const handler of this.#messageHandlers) {
+      await handler(message);
+    }
+  }
+
+  // Точки расширения для dry-run, который дополнительно пишет все на диск
+  protected record(method: string, params: object): Promise<void> {
+    this.calls.push({ method, params });
+    return Promise.resolve();
+  }
+
+  protected saveFile(attachment: string, file: UploadedFile): Promise<void> {
+    this.files.set(attachment, file);
+    return Promise.resolve();
+  }
+
+  protected saveComment(comment: FakeComment): Promise<void> {
+    this.comments.push(comment);
+    return Promise.resolve();
+  }
+
+  protected saveMessage(message: FakeMessage): Promise<void> {
+    this.messages.push(message);
+    return Promise.resolve();
+  }
+
+  #parseAttachments = (attachments?: string | string[]): string[] => {
+    return typeof attachments === 'string'
+      ? attachments.split(',').filter(Boolean)
+      : (attachments ?? []);
+  };
+
+  // payload кнопки приходит строкой с JSON
+  #parsePayload = (payload?: string): { command?: string } | undefined => {
+    try {
+      return payload
+        ? (JSON.parse(payload) as { command?: string })
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  #nextId = (): number => {
+    return ++this.#lastId;
+  };
+
+  #takeUpload = (key: string): UploadedFile => {
+    const upload = this.#uploads.get(key);
+    if (!upload) {
+      throw new Error(`Файл ${key} не загружался`);
+    }
+    this.#uploads.delete(key);
+    return upload;
+  };
+
+  #listen = (): Promise<string> => {
+    this.#baseUrl ??= new Promise((resolve, reject) => {
+      const server = http.createServer((request, response) => {
+        this.#handleUpload(request, response).catch((error: Error) => {
+          response.writeHead(400).end(JSON.stringify({ error: error.message }));
+        });
+      });
+      this.#server = server;
+      server.on('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${port}`);
+      });
+    });
+    return this.#baseUrl;
+  };
+
+  #handleUpload = async (
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+  ): Promise<void> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const key = String(this.#nextId());
+    this.#uploads.set(
+      key,
+      this.#parseMultipart(
+        Buffer.concat(chunks),
+        request.headers['content-type'],
+      ),
+    );
+
+    // Ответы повторяют формат upload-серверов VK
+    const body =
+      request.url === '/upload/photo'
+        ? { server: 1, photo: key, hash: 'fake' }
+        : { file: key };
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+
+  // Достаточно первой части: и фото, и документы загружаются по одному файлу
+  #parseMultipart = (body: Buffer, contentType = ''): UploadedFile => {
+    const boundary = /boundary=(.+)$/.exec(contentType)?.[1];
+    if (!boundary) {
+      throw new Error('Ожидался multipart/form-data');
+    }
+
+    const headersEnd = body.indexOf('\r\n\r\n');
+    const dataEnd = body.indexOf(`\r\n--${boundary}`, headersEnd);
+    if (headersEnd === -1 || dataEnd === -1) {
+      throw new Error('Не удалось разобрать multipart/form-data');
+    }
+
+    const headers = body.subarray(0, headersEnd).toString('utf-8');
+    return {
+      fileName: /filename="([^"]*)"/.exec(headers)?.[1] ?? 'file',
+      data: Buffer.from(body.subarray(headersEnd + 4, dataEnd)),
+    };
+  };
+}
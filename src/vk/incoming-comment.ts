@@ -0,0 +1,46 @@
+import { IncomingComment } from '../types/incoming-comment.type';
+import { findPhotoUrl, VkAttachment } from './photo-attachment';
+
+// Комментарий в формате VK: объект события wall_reply_new или элемент wall.getComments
+export interface VkComment {
+  id: number;
+  from_id?: number;
+  owner_id?: number;
+  post_owner_id?: number;
+  post_id: number;
+  text?: string;
+  attachments?: VkAttachment[];
+  // Дальше - поля wall.getComments: время в секундах и ветка ответов
+  date?: number;
+  // Комментарий, на который отвечают; у ответа на корень ветки может не быть
+  reply_to_comment?: number;
+  thread?: { count: number; items?: VkComment[] };
+}
+
+// Страница ответа wall.getComments
+export interface VkCommentsPage {
+  count: number;
+  items: VkComment[];
+}
+
+/**
+ * Приводит комментарий из API или Callback API к общему виду.
+ * Возвращает undefined, если не хватает полей, чтобы на него ответить.
+ */
+export function toIncomingComment(
+  comment?: Partial<VkComment>,
+): IncomingComment | undefined {
+  const ownerId = comment?.owner_id ?? comment?.post_owner_id;
+  if (!comment?.id || !comment.post_id || !ownerId) {
+    return undefined;
+  }
+
+  return {
+    ownerId,
+    postId: comment.post_id,
+    commentId: comment.id,
+    fromId: comment.from_id ?? 0,
+    text: comment.text ?? '',
+    photoUrl: findPhotoUrl(comment.attachments),
+  };
+}
@@ -0,0 +1,356 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  VK,
+  CommentContext,
+  ContextDefaultState,
+  MessageContext,
+  Params,
+  getRandomId,
+} from 'vk-io';
+import {
+  CommentDeleteHandler,
+  CommentHandler,
+  GatewayHealth,
+  LikeStatus,
+  MessageHandler,
+  SavedDocument,
+  SavedPhoto,
+  TokenHealth,
+  UploadServer,
+  VkActor,
+  VkGateway,
+} from './vk-gateway';
+import { VkRequestScheduler } from './vk-request-scheduler';
+import { largestPhotoUrl } from './photo-attachment';
+import { VkCommentsPage } from './incoming-comment';
+import { IncomingComment } from '../types/incoming-comment.type';
+import { VkCallbackEvent } from '../types/vk-callback-event.type';
+
+// Проверка токенов - это запросы к API, поэтому частые /health берут прошлый результат
+const TOKEN_CHECK_TTL_MS = 60000;
+
+@Injectable()
+export class LiveVkGateway extends VkGateway {
+  readonly enabled: boolean;
+
+  #vk: VK;
+  #vkUser: VK;
+  #transport: string;
+  #scheduler: VkRequestScheduler;
+  #commentHandlers: CommentHandler[] = [];
+  #commentEditHandlers: CommentHandler[] = [];
+  #commentDeleteHandlers: CommentDeleteHandler[] = [];
+  #messageHandlers: MessageHandler[] = [];
+  #started = false;
+  #tokenCheck?: {
+    checkedAt: number;
+    tokens: Promise<Record<VkActor, TokenHealth>>;
+  };
+
+  constructor(configService: ConfigService, scheduler: VkRequestScheduler) {
+    super();
+    this.#scheduler = scheduler;
+    // polling - long poll, callback - события приходят в VkCallbackController
+    this.#transport = configService.get<string>('VK_TRANSPORT') || 'polling';
+
+    const groupToken = configService.get<string>('VK_GROUP_TOKEN');
+    const userToken = configService.get<string>('VK_USER_TOKEN');
+
+    this.enabled = Boolean(groupToken && userToken);
+    if (!groupToken || !userToken) {
+      // Без токенов приложение поднимается только для превью, без работы с VK
+      console.warn(
+        'VK tokens are not defined in environment variables, VK integration is disabled',
+      );
+      return;
+    }
+
+    // Инстанс для работы от имени группы (для прослушивания событий)
+    // Повторы и паузы делает VkRequestScheduler, поэтому собственные повторы vk-io выключены
+    this.#vk = new VK({
+      token: groupToken,
+      pollingGroupId: Math.abs(Number(configService.get<string>('GROUP_ID'))),
+      apiLimit: scheduler.getRateLimit('group'),
+      apiRetryLimit: 0,
+    });
+
+    // Инстанс для работы от имени пользователя (для загрузки фото)
+    this.#vkUser = new VK({
+      token: userToken,
+      apiLimit: scheduler.getRateLimit('user'),
+      apiRetryLimit: 0,
+    });
+  }
+
+  getMessagesPhotoUploadServer(
+    params: Params.PhotosGetMessagesUploadServerParams,
+  ): Promise<UploadServer> {
+    return this.#scheduler.run('group', 'photos.getMessagesUploadServer', () =>
+      this.#vk.api.photos.getMessagesUploadServer(params),
+    );
+  }
+
+  saveMessagesPhoto(
+    params: Params.PhotosSaveMessagesPhotoParams,
+  ): Promise<SavedPhoto[]> {
+    return this.#scheduler.run('group', 'photos.saveMessagesPhoto', () =>
+      this.#vk.api.photos.saveMessagesPhoto(params),
+    );
+  }
+
+  getMessagesUploadServer(
+    params: Params.DocsGetMessagesUploadServerParams,
+    actor: VkActor = 'user',
+  ): Promise<UploadServer> {
+    return this.#scheduler.run(actor, 'docs.getMessagesUploadServer', () =>
+      this.#api(actor).docs.getMessagesUploadServer(params),
+    );
+  }
+
+  async saveDocument(
+    params: Params.DocsSaveParams,
+    actor: VkActor = 'user',
+  ): Promise<SavedDocument> {
+    return (await this.#scheduler.run(actor, 'docs.save', () =>
+      this.#api(actor).docs.save(params),
+    )) as SavedDocument;
+  }
+
+  createComment(
+    params: Params.WallCreateCommentParams,
+  ): Promise<{ comment_id: number }> {
+    // Ответы с вложениями публикуются пользовательским токеном от имени группы
+    const actor: VkActor = params.from_group ? 'user' : 'group';
+    return this.#scheduler.run(actor, 'wall.createComment', () =>
+      this.#api(actor).wall.createComment(params),
+    );
+  }
+
+  async getComments(
+    params: Params.WallGetCommentsParams,
+  ): Promise<VkCommentsPage> {
+    return (await this.#scheduler.run('user', 'wall.getComments', () =>
+      this.#vkUser.api.wall.getComments(params),
+    )) as unknown as VkCommentsPage;
+  }
+
+  async deleteComment(params: Params.WallDeleteCommentParams): Promise<void> {
+    await this.#scheduler.run('user', 'wall.deleteComment', () =>
+      this.#vkUser.api.wall.deleteComment(params),
+    );
+  }
+
+  async deleteDocument(params: Params.DocsDeleteParams): Promise<void> {
+    await this.#scheduler.run('user', 'docs.delete', () =>
+      this.#vkUser.api.docs.delete(params),
+    );
+  }
+
+  async isMember(params: Params.GroupsIsMemberParams): Promise<boolean> {
+    // Для одного user_id без extended VK возвращает 1 или 0
+    const member = (await this.#scheduler.run('group', 'groups.isMember', () =>
+      this.#vk.api.groups.isMember(params),
+    )) as unknown as number;
+    return Boolean(member);
+  }
+
+  async isLiked(params: Params.LikesIsLikedParams): Promise<LikeStatus> {
+    const { liked, copied } = (await this.#scheduler.run(
+      'user',
+      'likes.isLiked',
+      () => this.#vkUser.api.likes.isLiked(params),
+    )) as { liked: number; copied: number };
+    return { liked: Boolean(liked), copied: Boolean(copied) };
+  }
+
+  async sendMessage(params: Params.MessagesSendParams): Promise<number> {
+    // random_id создаем один раз, чтобы VK не доставил сообщение дважды при повторе
+    const message = { random_id: getRandomId(), ...params };
+    // При peer_id VK возвращает id сообщения, а не массив, как указано в схеме
+    return (await this.#scheduler.run('group', 'messages.send', () =>
+      this.#vk.api.messages.send(message),
+    )) as unknown as number;
+  }
+
+  onComment(handler: CommentHandler): void {
+    this.#commentHandlers.push(handler);
+  }
+
+  onCommentEdit(handler: CommentHandler): void {
+    this.#commentEditHandlers.push(handler);
+  }
+
+  onCommentDelete(handler: CommentDeleteHandler): void {
+    this.#commentDeleteHandlers.push(handler);
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.#messageHandlers.push(handler);
+  }
+
+  async handleUpdate(event: VkCallbackEvent): Promise<void> {
+    await this.#vk.updates.handleWebhookUpdate(event);
+  }
+
+  #api = (actor: VkActor) => {
+    return actor === 'group' ? this.#vk.api : this.#vkUser.api;
+  };
+
+  #photoUrl = (
+    context: CommentContext | MessageContext,
+  ): string | undefined => {
+    const [photo] = context.getAttachments('photo');
+    return largestPhotoUrl({ sizes: photo?.sizes });
+  };
+
+  #toComment = (context: CommentContext): IncomingComment => {
+    return {
+      ownerId: context.ownerId,
+      postId: context.objectId,
+      commentId: context.id,
+      fromId: context.fromId ?? 0,
+      text: context.text ?? '',
+      photoUrl: this.#photoUrl(context),
+    };
+  };
+
+  async start(): Promise<void> {
+    this.#vk.updates.on(
+      'message_new',
+      async (context: MessageContext<ContextDefaultState>) => {
+        console.log('Новое сообщение:', context);
+
+        // Отвечаем только на личные сообщения пользователей
+        if (context.isOutbox || context.isChat || !context.isUser) {
+          return;
+        }
+
+        for (const handler of this.#messageHandlers) {
+          await handler({
+            messageId: context.id,
+            peerId: context.peerId,
+            fromId: context.senderId,
+            text: context.text ?? '',
+            command: (
+              context.messagePayload as { command?: string } | undefined
+            )?.command,
+            photoUrl: this.#photoUrl(context),
+          });
+        }
+      },
+    );
+
+    this.#vk.updates.on('wall_post_new', (context) => {
+      console.log('Новый пост:', context);
+    });
+
+    this.#vk.updates.on(
+      'wall_reply_new',
+      async (context: CommentContext<ContextDefaultState>) => {
+        console.log('=== Новый комментарий ===');
+        console.log('Текст:', context.text);
+        console.log('ID поста:', context.wallPostId);
+        console.log('Полный контекст:', JSON.stringify(context, null, 2));
+
+        // Комментарии от имени сообщества, в том числе ответы самого бота, - не запросы
+        if ((context.fromId ?? 0) <= 0) {
+          return;
+        }
+
+        for (const handler of this.#commentHandlers) {
+          await handler(this.#toComment(context));
+        }
+      },
+    );
+
+    this.#vk.updates.on(
+      'wall_reply_edit',
+      async (context: CommentContext<ContextDefaultState>) => {
+        console.log('Комментарий изменен:', context.id, context.text);
+
+        if ((context.fromId ?? 0) <= 0) {
+          return;
+        }
+
+        for (const handler of this.#commentEditHandlers) {
+          await handler(this.#toComment(context));
+        }
+      },
+    );
+
+    this.#vk.updates.on(
+      'wall_reply_delete',
+      async (context: CommentContext<ContextDefaultState>) => {
+        console.log('Комментарий удален:', context.id);
+
+        for (const handler of this.#commentDeleteHandlers) {
+          await handler({
+            ownerId: context.ownerId,
+            postId: context.objectId,
+            commentId: context.id,
+          });
+        }
+      },
+    );
+
+    if (this.#transport === 'callback') {
+      console.log('Waiting for VK Callback API events...');
+      this.#started = true;
+      return;
+    }
+
+    console.log('Starting VK polling...');
+    await this.#vk.updates.start();
+    this.#started = true;
+    console.log('VK polling started successfully');
+  }
+
+  async checkHealth(): Promise<GatewayHealth> {
+    if (!this.enabled) {
+      const missing = { valid: false, error: 'Токен не задан' };
+      return {
+        transport: this.#transport,
+        receiving: false,
+        tokens: { group: missing, user: missing },
+      };
+    }
+
+    return {
+      transport: this.#transport,
+      receiving:
+        this.#started &&
+        (this.#transport === 'callback' || this.#vk.updates.isStarted),
+      tokens: await this.#checkTokens(),
+    };
+  }
+
+  #checkTokens = (): Promise<Record<VkActor, TokenHealth>> => {
+    const now = Date.now();
+    if (
+      !this.#tokenCheck ||
+      now - this.#tokenCheck.checkedAt > TOKEN_CHECK_TTL_MS
+    ) {
+      this.#tokenCheck = {
+        checkedAt: now,
+        tokens: Promise.all([
+          this.#checkToken(() => this.#vk.api.groups.getById({})),
+          this.#checkToken(() => this.#vkUser.api.users.get({})),
+        ]).then(([group, user]) => ({ group, user })),
+      };
+    }
+    return this.#tokenCheck.tokens;
+  };
+
+  // Мимо VkRequestScheduler: повторы с паузами только задержали бы ответ /health
+  #checkToken = async (
+    request: () => Promise<unknown>,
+  ): Promise<TokenHealth> => {
+    try {
+      await request();
+      return { valid: true };
+    } catch (error) {
+      return { valid: false, error: error.message };
+    }
+  };
+}
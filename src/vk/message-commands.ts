@@ -0,0 +1,99 @@
+import { IncomingMessage } from '../types/incoming-message.type';
+
+export type MessageCommandName =
+  | 'bundle'
+  | 'preview'
+  | 'status'
+  | 'again'
+  | 'help'
+  // Команды администраторов для модерации
+  | 'pending'
+  | 'approve'
+  | 'reject'
+  | 'edit';
+
+export interface MessageCommand {
+  name: MessageCommandName;
+  // Текст после команды, например ник в /bundle Neo
+  argument: string;
+}
+
+const COMMAND_NAMES: MessageCommandName[] = [
+  'bundle',
+  'preview',
+  'status',
+  'again',
+  'help',
+  'pending',
+  'approve',
+  'reject',
+  'edit',
+];
+
+export const HELP_TEXT = [
+  'Я рисую бандлы с вашим ником. Команды:',
+  '/bundle <ник> - собрать бандл: обложки, аватар и архив',
+  '/preview <ник> - прислать аватар для примера',
+  '/status - где сейчас ваш запрос',
+  '/again - прислать последний бандл еще раз',
+  '/help - эта подсказка',
+  '',
+  'Можно просто написать «ник: ваш ник».',
+].join('\n');
+
+export const ADMIN_HELP_TEXT = [
+  'Команды модерации:',
+  '/pending - ники, которые ждут проверки',
+  '/approve <номер> - одобрить ник',
+  '/reject <номер> - отклонить ник',
+  '/edit <номер> <ник> - исправить ник и выдать бандл',
+].join('\n');
+
+const button = (label: string, command: MessageCommandName) => ({
+  action: {
+    type: 'text',
+    label,
+    payload: JSON.stringify({ command }),
+  },
+  color: command === 'status' ? 'primary' : 'secondary',
+});
+
+// Кнопки отправляют команду в payload, поэтому подписи можно менять свободно
+export const COMMANDS_KEYBOARD = JSON.stringify({
+  one_time: false,
+  buttons: [
+    [button('Статус', 'status'), button('Прислать еще раз', 'again')],
+    [button('Помощь', 'help')],
+  ],
+});
+
+const isCommandName = (name: string): name is MessageCommandName =>
+  (COMMAND_NAMES as string[]).includes(name);
+
+/**
+ * Разбирает команду из кнопки или текста вида /bundle Neo.
+ * Возвращает undefined для обычного текста.
+ */
+export function parseCommand(
+  message: IncomingMessage,
+): MessageCommand | undefined {
+  if (message.command) {
+    // "start" присылает кнопка «Начать» в новом диалоге
+    return {
+      name: isCommandName(message.command) ? message.command : 'help',
+      argument: '',
+    };
+  }
+
+  const match = /^\/(\S+)\s*([\s\S]*)$/.exec(message.text.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  // На незнакомую команду отвечаем подсказкой
+  const name = match[1].toLowerCase();
+  return {
+    name: isCommandName(name) ? name : 'help',
+    argument: match[2].trim(),
+  };
+}
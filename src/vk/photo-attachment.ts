@@ -0,0 +1,48 @@
+// Фото во вложении в формате VK: элемент attachments из события, wall.getComments
+// или messages.getById. orig_photo есть только у новых фото
+export interface VkPhotoSize {
+  type?: string;
+  url?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface VkPhoto {
+  sizes?: VkPhotoSize[];
+  orig_photo?: VkPhotoSize;
+}
+
+export interface VkAttachment {
+  type: string;
+  photo?: VkPhoto;
+}
+
+// У старых фото в sizes нет ширины и высоты, тогда размер понятен только по типу
+const SIZE_TYPES = ['s', 'm', 'o', 'p', 'q', 'r', 'x', 'y', 'z', 'w'];
+
+/**
+ * Ссылка на самую большую копию фото.
+ */
+export function largestPhotoUrl(photo?: VkPhoto): string | undefined {
+  const sizes = [...(photo?.sizes ?? []), photo?.orig_photo].filter(
+    (size): size is VkPhotoSize => Boolean(size?.url),
+  );
+  const area = (size: VkPhotoSize) => (size.width ?? 0) * (size.height ?? 0);
+  const rank = (size: VkPhotoSize) => SIZE_TYPES.indexOf(size.type ?? '');
+
+  return sizes.reduce<VkPhotoSize | undefined>((largest, size) => {
+    if (!largest) {
+      return size;
+    }
+    const larger = area(size) - area(largest) || rank(size) - rank(largest);
+    return larger > 0 ? size : largest;
+  }, undefined)?.url;
+}
+
+/**
+ * Ссылка на первое фото среди вложений комментария или сообщения.
+ */
+export function findPhotoUrl(attachments?: VkAttachment[]): string | undefined {
+  const photo = attachments?.find((attachment) => attachment.type === 'photo');
+  return largestPhotoUrl(photo?.photo);
+}
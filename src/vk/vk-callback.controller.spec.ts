@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { ConfigService } from '@nestjs/config';
+import { VkCallbackController } from './vk-callback.controller';
+import { VkGateway } from './vk-gateway';
+import { FakeVkGateway } from './fake-vk.gateway';
+
+describe('VkCallbackController', () => {
+  let app: INestApplication<App>;
+  let gateway: FakeVkGateway;
+  let onComment: jest.Mock;
+
+  const createApp = async (config: Record<string, string>) => {
+    gateway = new FakeVkGateway();
+    onComment = jest.fn();
+    gateway.onComment(onComment);
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [VkCallbackController],
+      providers: [
+        { provide: ConfigService, useValue: new ConfigService(config) },
+        { provide: VkGateway, useValue: gateway },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+  };
+
+  beforeEach(async () => {
+    await createApp({
+      VK_TRANSPORT: 'callback',
+      VK_CALLBACK_CONFIRMATION: 'abc123',
+      VK_CALLBACK_SECRET: 'secret',
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should answer the confirmation handshake', async () => {
+    await request(app.getHttpServer())
+      .post('/vk/callback')
+      .send({ type: 'confirmation', group_id: 1, secret: 'secret' })
+      .expect(200)
+      .expect('abc123');
+  });
+
+  it('should reject events with a wrong secret', async () => {
+    await request(app.getHttpServer())
+      .post('/vk/callback')
+      .send({ type: 'wall_reply_new', object: {}, secret: 'wrong' })
+      .expect(403);
+
+    expect(onComment).not.toHaveBeenCalled();
+  });
+
+  it('should pass comments to the shared handler', async () => {
+    await request(app.getHttpServer())
+      .post('/vk/callback')
+      .send({
+        type: 'wall_reply_new',
+        group_id: 1,
+        secret: 'secret',
+        object: {
+          id: 5,
+          from_id: 7,
+          post_id: 10,
+          post_owner_id: -1,
+          text: 'ник Neo',
+        },
+      })
+      .expect(200)
+      .expect('ok');
+
+    expect(onComment).toHaveBeenCalledWith({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+  });
+
+  it('should skip comments posted by the community itself', async () => {
+    await request(app.getHttpServer())
+      .post('/vk/callback')
+      .send({
+        type: 'wall_reply_new',
+        group_id: 1,
+        secret: 'secret',
+        object: {
+          id: 6,
+          from_id: -1,
+          post_id: 10,
+          post_owner_id: -1,
+          text: 'Не получится сделать бандл для ника Neo: исправьте ник',
+        },
+      })
+      .expect(200)
+      .expect('ok');
+
+    expect(onComment).not.toHaveBeenCalled();
+  });
+
+  it('should answer before the handlers finish and log their errors', async () => {
+    const error = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    let fail = (_error: Error) => undefined as void;
+    jest
+      .spyOn(gateway, 'handleUpdate')
+      .mockReturnValue(new Promise((_resolve, reject) => (fail = reject)));
+
+    await request(app.getHttpServer())
+      .post('/vk/callback')
+      .send({ type: 'message_new', group_id: 1, secret: 'secret', object: {} })
+      .expect(200)
+      .expect('ok');
+
+    fail(new Error('flood'));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(error).toHaveBeenCalledWith(
+      'Ошибка при обработке события message_new:',
+      expect.objectContaining({ message: 'flood' }),
+    );
+    error.mockRestore();
+  });
+
+  it('should be disabled with long polling', async () => {
+    await app.close();
+    await createApp({ VK_TRANSPORT: 'polling' });
+
+    await request(app.getHttpServer())
+      .post('/vk/callback')
+      .send({ type: 'confirmation' })
+      .expect(404);
+  });
+});
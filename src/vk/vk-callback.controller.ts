@@ -0,0 +1,66 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Header,
+  HttpCode,
+  NotFoundException,
+  Post,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VkGateway } from './vk-gateway';
+import { VkCallbackEvent } from '../types/vk-callback-event.type';
+
+// Прием событий Callback API, включается через VK_TRANSPORT=callback
+@Controller('vk')
+export class VkCallbackController {
+  #enabled: boolean;
+  #confirmation?: string;
+  #secret?: string;
+
+  constructor(
+    configService: ConfigService,
+    private readonly vkGateway: VkGateway,
+  ) {
+    this.#enabled = configService.get<string>('VK_TRANSPORT') === 'callback';
+    this.#confirmation = configService.get<string>('VK_CALLBACK_CONFIRMATION');
+    this.#secret = configService.get<string>('VK_CALLBACK_SECRET');
+  }
+
+  @Post('callback')
+  @HttpCode(200)
+  @Header('Content-Type', 'text/plain')
+  handle(@Body() event: VkCallbackEvent): string {
+    if (!this.#enabled) {
+      throw new NotFoundException(
+        'Callback API выключен, используется long poll',
+      );
+    }
+    if (this.#secret && event.secret !== this.#secret) {
+      throw new ForbiddenException('Неверный secret');
+    }
+
+    if (event.type === 'confirmation') {
+      if (!this.#confirmation) {
+        throw new ServiceUnavailableException(
+          'VK_CALLBACK_CONFIRMATION не задан',
+        );
+      }
+      return this.#confirmation;
+    }
+
+    if (!this.vkGateway.enabled) {
+      throw new ServiceUnavailableException('Интеграция с VK выключена');
+    }
+
+    // VK ждет ответа несколько секунд и присылает событие снова, а обработчики
+    // отвечают на команды и чистят ответы через лимиты VK, поэтому не ждем их
+    this.vkGateway
+      .handleUpdate(event)
+      .catch((error) =>
+        console.error(`Ошибка при обработке события ${event.type}:`, error),
+      );
+    return 'ok';
+  }
+}
@@ -0,0 +1,136 @@
+import type { Params } from 'vk-io';
+import {
+  DeletedComment,
+  IncomingComment,
+} from '../types/incoming-comment.type';
+import { IncomingMessage } from '../types/incoming-message.type';
+import { VkCallbackEvent } from '../types/vk-callback-event.type';
+import { VkCommentsPage } from './incoming-comment';
+
+export interface UploadServer {
+  upload_url: string;
+}
+
+export interface SavedPhoto {
+  id: number;
+  owner_id: number;
+}
+
+export interface SavedDocument {
+  type?: string;
+  doc: { id: number; owner_id: number };
+}
+
+export interface LikeStatus {
+  liked: boolean;
+  // Пользователь сделал репост записи
+  copied: boolean;
+}
+
+export type CommentHandler = (comment: IncomingComment) => Promise<void>;
+export type CommentDeleteHandler = (comment: DeletedComment) => Promise<void>;
+export type MessageHandler = (message: IncomingMessage) => Promise<void>;
+
+// От чьего имени выполняется запрос: загрузки для стены идут от пользователя,
+// а файлы для личных сообщений может прикрепить только само сообщество
+export type VkActor = 'user' | 'group';
+
+export interface TokenHealth {
+  valid: boolean;
+  error?: string;
+}
+
+// Состояние связи с VK для /health
+export interface GatewayHealth {
+  // polling, callback или имя подделки: fake, dry-run
+  transport: string;
+  // Получает ли бот события: long poll запущен или Callback API готов их принимать
+  receiving: boolean;
+  tokens: Record<VkActor, TokenHealth>;
+}
+
+// Коды ошибок VK, когда пользователь не разрешил сообщения от сообщества
+const MESSAGES_FORBIDDEN_CODES = [901, 902];
+
+export function isMessagesForbidden(error: unknown): boolean {
+  return MESSAGES_FORBIDDEN_CODES.includes(
+    (error as { code?: number })?.code ?? 0,
+  );
+}
+
+/**
+ * Методы VK, которые нужны боту. Абстрактный класс служит и токеном для DI:
+ * в проде это vk-io, в тестах и dry-run - локальная подделка.
+ */
+export abstract class VkGateway {
+  // false, если работать с VK нельзя (например, не заданы токены)
+  abstract readonly enabled: boolean;
+
+  // Фото для личных сообщений загружает сообщество
+  abstract getMessagesPhotoUploadServer(
+    params: Params.PhotosGetMessagesUploadServerParams,
+  ): Promise<UploadServer>;
+
+  abstract saveMessagesPhoto(
+    params: Params.PhotosSaveMessagesPhotoParams,
+  ): Promise<SavedPhoto[]>;
+
+  abstract getMessagesUploadServer(
+    params: Params.DocsGetMessagesUploadServerParams,
+    actor?: VkActor,
+  ): Promise<UploadServer>;
+
+  abstract saveDocument(
+    params: Params.DocsSaveParams,
+    actor?: VkActor,
+  ): Promise<SavedDocument>;
+
+  abstract createComment(
+    params: Params.WallCreateCommentParams,
+  ): Promise<{ comment_id: number }>;
+
+  // Комментарии под постом или ответы в ветке (comment_id); читает пользователь
+  abstract getComments(
+    params: Params.WallGetCommentsParams,
+  ): Promise<VkCommentsPage>;
+
+  // Удаляет пользователь: он администратор сообщества и владелец документов ответов
+  abstract deleteComment(params: Params.WallDeleteCommentParams): Promise<void>;
+
+  abstract deleteDocument(params: Params.DocsDeleteParams): Promise<void>;
+
+  // Подписан ли пользователь на сообщество; спрашивает сообщество
+  abstract isMember(params: Params.GroupsIsMemberParams): Promise<boolean>;
+
+  // Лайк и репост записи пользователем; спрашивает пользователь
+  abstract isLiked(params: Params.LikesIsLikedParams): Promise<LikeStatus>;
+
+  /**
+   * Сообщение от имени сообщества. Возвращает id отправленного сообщения.
+   */
+  abstract sendMessage(params: Params.MessagesSendParams): Promise<number>;
+
+  abstract onComment(handler: CommentHandler): void;
+
+  // wall_reply_edit: комментарий приходит с новым текстом
+  abstract onCommentEdit(handler: CommentHandler): void;
+
+  abstract onCommentDelete(handler: CommentDeleteHandler): void;
+
+  abstract onMessage(handler: MessageHandler): void;
+
+  /**
+   * Передает событие Callback API тем же обработчикам, что и long poll.
+   */
+  abstract handleUpdate(event: VkCallbackEvent): Promise<void>;
+
+  /**
+   * Начинает получать события. Вызывается после регистрации обработчиков.
+   */
+  abstract start(): Promise<void>;
+
+  /**
+   * Проверяет, получает ли бот события и действуют ли оба токена.
+   */
+  abstract checkHealth(): Promise<GatewayHealth>;
+}
@@ -0,0 +1,193 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  classifyVkError,
+  isRetryable,
+  TokenBucket,
+  VkRequestScheduler,
+} from './vk-request-scheduler';
+
+describe('VkRequestScheduler', () => {
+  const vkError = (code: number) =>
+    Object.assign(new Error(`Code №${code}`), { code });
+
+  const createScheduler = (config: Record<string, string> = {}) =>
+    new VkRequestScheduler(
+      new ConfigService({
+        VK_RETRY_DELAY_MS: '1',
+        VK_USER_RPS: '1000',
+        VK_GROUP_RPS: '1000',
+        VK_METHOD_RPS: '',
+        ...config,
+      }),
+    );
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should classify VK errors', () => {
+    expect(classifyVkError(vkError(6))).toBe('too-many-requests');
+    expect(classifyVkError(vkError(9))).toBe('flood');
+    expect(classifyVkError(vkError(14))).toBe('captcha');
+    expect(classifyVkError(vkError(10))).toBe('server');
+    expect(classifyVkError(vkError(15))).toBe('fatal');
+    expect(classifyVkError(new Error('socket hang up'))).toBe('network');
+  });
+
+  it('should retry writes only when VK did not run them', () => {
+    expect(isRetryable('flood', 'wall.createComment')).toBe(true);
+    expect(isRetryable('too-many-requests', 'docs.save')).toBe(true);
+    expect(isRetryable('network', 'wall.getComments')).toBe(true);
+    expect(isRetryable('server', 'groups.isMember')).toBe(true);
+    expect(isRetryable('network', 'messages.send')).toBe(true);
+    expect(isRetryable('network', 'wall.createComment')).toBe(false);
+    expect(isRetryable('server', 'docs.save')).toBe(false);
+    expect(isRetryable('captcha', 'wall.getComments')).toBe(false);
+  });
+
+  it('should retry temporary errors and count them', async () => {
+    const scheduler = createScheduler();
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(vkError(9))
+      .mockRejectedValueOnce(vkError(6))
+      .mockResolvedValue({ comment_id: 1 });
+
+    await expect(
+      scheduler.run('user', 'wall.createComment', request),
+    ).resolves.toEqual({ comment_id: 1 });
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(scheduler.getMetrics()).toMatchObject({
+      requests: 3,
+      retries: 2,
+      failed: 0,
+      errors: { flood: 1, 'too-many-requests': 1 },
+      codes: { '9': 1, '6': 1 },
+      methods: { 'wall.createComment': { requests: 3, errors: 2 } },
+    });
+  });
+
+  it('should not retry fatal errors', async () => {
+    const scheduler = createScheduler();
+    const request = jest.fn().mockRejectedValue(vkError(15));
+
+    await expect(scheduler.run('group', 'docs.save', request)).rejects.toThrow(
+      'Code №15',
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics()).toMatchObject({ retries: 0, failed: 1 });
+  });
+
+  it('should not repeat a comment that VK may have already posted', async () => {
+    const scheduler = createScheduler();
+    const request = jest.fn().mockRejectedValue(new Error('socket hang up'));
+
+    await expect(
+      scheduler.run('user', 'wall.createComment', request),
+    ).rejects.toThrow('socket hang up');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics()).toMatchObject({
+      retries: 0,
+      failed: 1,
+      errors: { network: 1 },
+    });
+  });
+
+  it('should fail on captcha without retrying', async () => {
+    const scheduler = createScheduler();
+    const request = jest.fn().mockRejectedValue(vkError(14));
+
+    await expect(
+      scheduler.run('user', 'wall.getComments', request),
+    ).rejects.toThrow('Code №14');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics()).toMatchObject({
+      failed: 1,
+      errors: { captcha: 1 },
+    });
+  });
+
+  it('should give up after the configured attempts', async () => {
+    const scheduler = createScheduler({ VK_RETRY_ATTEMPTS: '3' });
+    const request = jest.fn().mockRejectedValue(vkError(9));
+
+    await expect(scheduler.run('user', 'docs.save', request)).rejects.toThrow(
+      'Code №9',
+    );
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(scheduler.getMetrics()).toMatchObject({
+      retries: 2,
+      failed: 1,
+      errors: { flood: 3 },
+    });
+  });
+
+  it('should back off exponentially', async () => {
+    jest.useFakeTimers();
+    const scheduler = createScheduler({ VK_RETRY_DELAY_MS: '100' });
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(vkError(10))
+      .mockRejectedValueOnce(vkError(10))
+      .mockResolvedValue('ok');
+
+    const result = scheduler.run('user', 'wall.getComments', request);
+    await jest.advanceTimersByTimeAsync(99);
+    expect(request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('should throttle calls per token and per method', async () => {
+    jest.useFakeTimers();
+    const scheduler = createScheduler({
+      VK_USER_RPS: '2',
+      VK_METHOD_RPS: 'wall.createComment=1',
+    });
+    const request = jest.fn().mockResolvedValue('ok');
+
+    const calls = [
+      scheduler.run('user', 'docs.save', request),
+      scheduler.run('user', 'docs.save', request),
+      scheduler.run('user', 'docs.save', request),
+    ];
+    await jest.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(request).toHaveBeenCalledTimes(3);
+    await Promise.all(calls);
+
+    // Лимит метода строже лимита токена
+    const comments = [
+      scheduler.run('group', 'wall.createComment', request),
+      scheduler.run('group', 'wall.createComment', request),
+    ];
+    await jest.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(4);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(request).toHaveBeenCalledTimes(5);
+    await Promise.all(comments);
+
+    expect(scheduler.getMetrics()).toMatchObject({
+      throttled: 2,
+      throttledMs: 1500,
+    });
+  });
+
+  it('should refill tokens over time', () => {
+    jest.useFakeTimers();
+    const bucket = new TokenBucket(2);
+
+    expect([bucket.take(), bucket.take(), bucket.take()]).toEqual([0, 0, 500]);
+    jest.advanceTimersByTime(1500);
+    expect(bucket.take()).toBe(0);
+  });
+});
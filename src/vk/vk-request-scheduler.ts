@@ -0,0 +1,254 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VkActor } from './vk-gateway';
+
+export type VkErrorKind =
+  | 'too-many-requests'
+  | 'flood'
+  | 'captcha'
+  | 'server'
+  | 'network'
+  | 'fatal';
+
+export interface VkApiMetrics {
+  // Все попытки, включая повторы
+  requests: number;
+  retries: number;
+  // Запросы, которые не удалось выполнить даже после повторов
+  failed: number;
+  // Сколько раз и сколько всего ждали из-за собственных лимитов
+  throttled: number;
+  throttledMs: number;
+  errors: Partial<Record<VkErrorKind, number>>;
+  // Ответы VK по кодам ошибок
+  codes: Record<string, number>;
+  methods: Record<string, { requests: number; errors: number }>;
+}
+
+// Известные коды ошибок VK, остальные считаются фатальными
+const ERROR_KINDS: Record<number, VkErrorKind> = {
+  1: 'server',
+  6: 'too-many-requests',
+  9: 'flood',
+  10: 'server',
+  14: 'captcha',
+};
+
+/**
+ * Тип ошибки VK. Ошибки без числового кода - сетевые сбои и таймауты.
+ */
+export function classifyVkError(error: unknown): VkErrorKind {
+  const code = (error as { code?: unknown })?.code;
+  if (typeof code !== 'number') {
+    return 'network';
+  }
+  return ERROR_KINDS[code] ?? 'fatal';
+}
+
+// messages.send отправляется с постоянным random_id, и VK не доставит его дважды
+const IDEMPOTENT_METHODS = new Set(['messages.send']);
+
+/**
+ * Можно ли повторить запрос после ошибки. Лимиты VK (6 и 9) означают, что запрос
+ * не выполнялся. После сбоя сети или внутренней ошибки VK запрос мог уже пройти,
+ * поэтому повторяем только чтение: иначе комментарий или документ появятся дважды.
+ * Капчу без captcha_sid и captcha_key повтором не пройти.
+ */
+export function isRetryable(kind: VkErrorKind, method: string): boolean {
+  switch (kind) {
+    case 'too-many-requests':
+    case 'flood':
+      return true;
+    case 'server':
+    case 'network':
+      return (
+        /^\w+\.(get|is)[A-Z]/.test(method) || IDEMPOTENT_METHODS.has(method)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Лимит с запасом на всплеск. Токены могут уйти в минус - это очередь
+ * уже выданных ожиданий, поэтому вызовы проходят в порядке поступления.
+ */
+export class TokenBucket {
+  #tokens: number;
+  #updatedAt: number;
+
+  constructor(
+    readonly perSecond: number,
+    readonly capacity = Math.max(1, perSecond),
+  ) {
+    this.#tokens = capacity;
+    this.#updatedAt = Date.now();
+  }
+
+  /**
+   * Забирает токен и возвращает, сколько миллисекунд нужно подождать.
+   */
+  take(): number {
+    const now = Date.now();
+    this.#tokens = Math.min(
+      this.capacity,
+      this.#tokens + ((now - this.#updatedAt) / 1000) * this.perSecond,
+    );
+    this.#updatedAt = now;
+    this.#tokens -= 1;
+
+    return this.#tokens >= 0
+      ? 0
+      : Math.ceil((-this.#tokens / this.perSecond) * 1000);
+  }
+}
+
+/**
+ * Единая точка для запросов к API VK: лимиты на токен и на метод,
+ * повторы при флуд-контроле и временных сбоях, счетчики для мониторинга.
+ */
+@Injectable()
+export class VkRequestScheduler {
+  #tokenBuckets: Record<VkActor, TokenBucket>;
+  #methodBuckets = new Map<string, TokenBucket>();
+  #methodLimits: Map<string, number>;
+  #maxAttempts: number;
+  #retryDelayMs: number;
+  #maxRetryDelayMs: number;
+  #metrics: VkApiMetrics = {
+    requests: 0,
+    retries: 0,
+    failed: 0,
+    throttled: 0,
+    throttledMs: 0,
+    errors: {},
+    codes: {},
+    methods: {},
+  };
+
+  constructor(configService: ConfigService) {
+    // Ограничения VK: 3 запроса в секунду для пользователя, 20 для сообщества
+    this.#tokenBuckets = {
+      user: new TokenBucket(
+        Number(configService.get<string>('VK_USER_RPS') || 3),
+      ),
+      group: new TokenBucket(
+        Number(configService.get<string>('VK_GROUP_RPS') || 20),
+      ),
+    };
+    // Формат: wall.createComment=1,docs.save=2
+    this.#methodLimits = new Map(
+      (configService.get<string>('VK_METHOD_RPS') ?? 'wall.createComment=1')
+        .split(',')
+        .map((limit) => limit.split('=').map((part) => part.trim()))
+        .filter(([method, rps]) => method && Number(rps) > 0)
+        .map(([method, rps]) => [method, Number(rps)]),
+    );
+    this.#maxAttempts = Number(
+      configService.get<string>('VK_RETRY_ATTEMPTS') || 4,
+    );
+    this.#retryDelayMs = Number(
+      configService.get<string>('VK_RETRY_DELAY_MS') || 1000,
+    );
+    this.#maxRetryDelayMs = Number(
+      configService.get<string>('VK_RETRY_MAX_DELAY_MS') || 60000,
+    );
+  }
+
+  getRateLimit(actor: VkActor): number {
+    return this.#tokenBuckets[actor].perSecond;
+  }
+
+  /**
+   * Выполняет запрос с учетом лимитов и повторяет его при временных ошибках VK.
+   */
+  async run<T>(
+    actor: VkActor,
+    method: string,
+    request: () => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.#throttle(actor, method);
+      this.#count(method, 'requests');
+
+      try {
+        return await request();
+      } catch (error) {
+        const kind = classifyVkError(error);
+        this.#countError(method, kind, error);
+
+        if (!isRetryable(kind, method) || attempt >= this.#maxAttempts) {
+          this.#metrics.failed++;
+          throw error;
+        }
+
+        const delayMs = this.#backoff(kind, attempt);
+        console.warn(
+          `VK ${method}: ${error.message}. Повтор ${attempt} через ${delayMs} мс`,
+        );
+        this.#metrics.retries++;
+        await this.#sleep(delayMs);
+      }
+    }
+  }
+
+  getMetrics(): VkApiMetrics {
+    return structuredClone(this.#metrics);
+  }
+
+  #throttle = async (actor: VkActor, method: string): Promise<void> => {
+    const waits = [this.#tokenBuckets[actor].take()];
+    const methodBucket = this.#methodBucket(method);
+    if (methodBucket) {
+      waits.push(methodBucket.take());
+    }
+
+    const waitMs = Math.max(...waits);
+    if (waitMs > 0) {
+      this.#metrics.throttled++;
+      this.#metrics.throttledMs += waitMs;
+      await this.#sleep(waitMs);
+    }
+  };
+
+  #methodBucket = (method: string): TokenBucket | undefined => {
+    const limit = this.#methodLimits.get(method);
+    if (!limit) {
+      return undefined;
+    }
+
+    let bucket = this.#methodBuckets.get(method);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.#methodBuckets.set(method, bucket);
+    }
+    return bucket;
+  };
+
+  // Флуд-контроль снимается не сразу, поэтому для него ждем дольше
+  #backoff = (kind: VkErrorKind, attempt: number): number => {
+    const base = kind === 'flood' ? this.#retryDelayMs * 5 : this.#retryDelayMs;
+    return Math.min(this.#maxRetryDelayMs, base * 2 ** (attempt - 1));
+  };
+
+  #count = (method: string, counter: 'requests' | 'errors') => {
+    if (counter === 'requests') {
+      this.#metrics.requests++;
+    }
+    this.#metrics.methods[method] ??= { requests: 0, errors: 0 };
+    this.#metrics.methods[method][counter]++;
+  };
+
+  #countError = (method: string, kind: VkErrorKind, error: unknown) => {
+    this.#count(method, 'errors');
+    this.#metrics.errors[kind] = (this.#metrics.errors[kind] ?? 0) + 1;
+
+    const code = (error as { code?: unknown })?.code;
+    const key = typeof code === 'number' ? String(code) : kind;
+    this.#metrics.codes[key] = (this.#metrics.codes[key] ?? 0) + 1;
+  };
+
+  #sleep = (ms: number): Promise<void> => {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  };
+}
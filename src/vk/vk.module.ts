@@ -1,10 +1,60 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { VkService } from './vk.service';
+import { VkCallbackController } from './vk-callback.controller';
+import { VkGateway } from './vk-gateway';
+import { LiveVkGateway } from './live-vk.gateway';
+import { VkRequestScheduler } from './vk-request-scheduler';
+import { CatchUpService } from './catch-up.service';
+import { EligibilityService } from './eligibility.service';
+import { DryRunGateway } from '../dry-run/dry-run.gateway';
 import { ImageProcessingModule } from '../image-processing/image-processing.module';
+import { QueueModule } from '../queue/queue.module';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { ArchiveModule } from '../archive/archive.module';
+import { RequestRegistryModule } from '../request-registry/request-registry.module';
+import { NicknameModule } from '../nickname/nickname.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { UploadCacheModule } from '../upload-cache/upload-cache.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { CommentRepliesModule } from '../comment-replies/comment-replies.module';
+import { StorageModule } from '../storage/storage.module';
+import { HistoryModule } from '../history/history.module';
 
 @Module({
-  imports: [ImageProcessingModule],
-  providers: [VkService],
-  exports: [VkService],
+  imports: [
+    ImageProcessingModule,
+    QueueModule,
+    RequestRegistryModule,
+    CampaignsModule,
+    ArchiveModule,
+    NicknameModule,
+    ModerationModule,
+    UploadCacheModule,
+    MetricsModule,
+    CommentRepliesModule,
+    StorageModule,
+    HistoryModule,
+  ],
+  controllers: [VkCallbackController],
+  providers: [
+    VkService,
+    VkRequestScheduler,
+    CatchUpService,
+    EligibilityService,
+    {
+      provide: VkGateway,
+      inject: [ConfigService, VkRequestScheduler],
+      // BOT_MODE=dry-run подменяет VK записью запросов на диск
+      useFactory: (
+        configService: ConfigService,
+        scheduler: VkRequestScheduler,
+      ) =>
+        configService.get<string>('BOT_MODE') === 'dry-run'
+          ? new DryRunGateway(configService)
+          : new LiveVkGateway(configService, scheduler),
+    },
+  ],
+  exports: [VkService, VkGateway, VkRequestScheduler],
 })
 export class VkModule {}
@@ -1,18 +1,1051 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
 import { VkService } from './vk.service';
+import { VkGateway } from './vk-gateway';
+import { FakeVkGateway } from './fake-vk.gateway';
+import { CatchUpService } from './catch-up.service';
+import { EligibilityService } from './eligibility.service';
+import { HistoryService } from '../history/history.service';
+import { COMMANDS_KEYBOARD, HELP_TEXT } from './message-commands';
+import { ImageProcessingService } from '../image-processing/image-processing.service';
+import { JobHandler, QueueService } from '../queue/queue.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { ArchiveService } from '../archive/archive.service';
+import { NicknameService } from '../nickname/nickname.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { StorageService } from '../storage/storage.service';
+import { UploadCacheService } from '../upload-cache/upload-cache.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { CommentRepliesService } from '../comment-replies/comment-replies.service';
+import { RequestRegistryService } from '../request-registry/request-registry.service';
+import { Bundle } from '../types/bundle.type';
+import { BundleJob } from '../types/bundle-job.type';
+import { DeliveryStrategy } from '../types/campaign.type';
 
 describe('VkService', () => {
-  let service: VkService;
+  let module: TestingModule;
+  let dataDir: string;
+  let gateway: FakeVkGateway;
+  let requestRegistry: Record<string, jest.Mock>;
+  let imageProcessing: Record<string, jest.Mock>;
+  let queue: Record<string, jest.Mock>;
+
+  const replies = () =>
+    gateway.comments.map((comment) => ({
+      replyTo: comment.replyTo,
+      message: comment.message,
+      files: comment.attachments.map(
+        (attachment) => gateway.files.get(attachment)?.fileName,
+      ),
+    }));
+
+  const messages = () =>
+    gateway.messages.map((message) => ({
+      peerId: message.peerId,
+      message: message.message,
+      files: message.attachments.map(
+        (attachment) => gateway.files.get(attachment)?.fileName,
+      ),
+    }));
+
+  // Ответы бота приходят обратно тем же событием, что и комментарии пользователей
+  const echoReplies = async () => {
+    const campaign = module.get<CampaignsService>(CampaignsService).getAll()[0];
+    for (const reply of [...gateway.comments]) {
+      const text = reply.message ?? '';
+      expect(
+        module
+          .get<NicknameService>(NicknameService)
+          .extract(text, campaign.nickname),
+      ).toBeNull();
+      await gateway.emitComment({
+        ownerId: -1,
+        postId: 10,
+        commentId: reply.id,
+        fromId: -1,
+        text,
+      });
+    }
+  };
+
+  const useDelivery = (delivery: DeliveryStrategy) => {
+    const campaigns = module.get<CampaignsService>(CampaignsService);
+    for (const campaign of campaigns.getAll()) {
+      campaign.delivery = delivery;
+    }
+  };
 
   beforeEach(async () => {
-    const module: TestingModule = await Test.createTestingModule({
-      providers: [VkService],
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vk-service-'));
+    gateway = new FakeVkGateway();
+    requestRegistry = {
+      reserve: jest.fn().mockResolvedValue({ allowed: true }),
+      complete: jest.fn(),
+      release: jest.fn(),
+      findLastIssued: jest.fn().mockResolvedValue(undefined),
+    };
+    imageProcessing = {
+      findUnsupportedCharacters: jest.fn().mockResolvedValue([]),
+      startBundle: jest.fn(() =>
+        Promise.resolve({
+          cover: Promise.resolve(Buffer.from('cover')),
+          avatar: Promise.resolve(Buffer.from('avatar')),
+        }),
+      ),
+      getLayouts: jest.fn().mockResolvedValue([
+        { name: 'cover', reply: 'first' },
+        { name: 'avatar', reply: 'second' },
+      ]),
+      renderLayout: jest.fn().mockResolvedValue(Buffer.from('avatar')),
+      getTemplateVersion: jest.fn().mockResolvedValue('v1'),
+      decodePhoto: jest.fn((photo: Buffer) =>
+        Promise.resolve({ data: photo, info: {} }),
+      ),
+      createOutputs: jest.fn((nickname: string, bundle: Bundle) =>
+        Promise.resolve(
+          Object.entries(bundle).map(([name, data]) => ({
+            fileName: `${nickname}_${name}.png`,
+            data,
+            description: name,
+          })),
+        ),
+      ),
+    };
+
+    // Очередь без хранилища: задача выполняется сразу при постановке
+    let handler: JobHandler<BundleJob>;
+    queue = {
+      process: jest.fn((jobHandler: JobHandler<BundleJob>) => {
+        handler = jobHandler;
+      }),
+      enqueue: jest.fn(async (id: string, payload: BundleJob) => {
+        await handler(payload, {} as never);
+        return true;
+      }),
+      find: jest.fn().mockResolvedValue([]),
+      getPosition: jest.fn(),
+      saveProgress: jest.fn(),
+    };
+
+    module = await Test.createTestingModule({
+      providers: [
+        VkService,
+        CampaignsService,
+        ArchiveService,
+        NicknameService,
+        ModerationService,
+        UploadCacheService,
+        StorageService,
+        MetricsService,
+        CatchUpService,
+        CommentRepliesService,
+        EligibilityService,
+        HistoryService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            DATA_DIR: dataDir,
+            GROUP_ID: '-1',
+            TARGET_POST_ID: '10',
+            ADMIN_IDS: '100',
+            // Вызовы wall.getComments при старте мешали бы проверять запросы к VK
+            CATCH_UP_HOURS: '0',
+          }),
+        },
+        { provide: VkGateway, useValue: gateway },
+        { provide: ImageProcessingService, useValue: imageProcessing },
+        { provide: QueueService, useValue: queue },
+        { provide: RequestRegistryService, useValue: requestRegistry },
+      ],
     }).compile();
+    await module.init();
+  });
 
-    service = module.get<VkService>(VkService);
+  afterEach(async () => {
+    await module.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
   });
 
   it('should be defined', () => {
-    expect(service).toBeDefined();
+    expect(module.get<VkService>(VkService)).toBeDefined();
+  });
+
+  it('should reply with covers, then avatar and archive', async () => {
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'Ник: Neo',
+    });
+
+    expect(replies()).toEqual([
+      {
+        replyTo: 5,
+        message: 'Ваш бандл готов! Обложки для Neo:',
+        files: ['Neo_cover.png'],
+      },
+      {
+        replyTo: 5,
+        message: 'Аватар и архив со всеми файлами:',
+        files: ['Neo_avatar.png', 'bundle_Neo.zip'],
+      },
+    ]);
+    expect(gateway.files.get(gateway.comments[0].attachments[0])?.data).toEqual(
+      Buffer.from('cover'),
+    );
+    expect(requestRegistry.complete).toHaveBeenCalledWith(
+      '-1_5',
+      `https://vk.com/wall-1_10?reply=${gateway.comments[0].id}&thread=5`,
+    );
+  });
+
+  it('should send only the missing replies when a failed job is retried', async () => {
+    const createComment = gateway.createComment.bind(gateway);
+    jest
+      .spyOn(gateway, 'createComment')
+      .mockImplementationOnce(createComment)
+      .mockRejectedValueOnce(new Error('Internal server error'));
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'Ник: Neo',
+    });
+    expect(replies()).toHaveLength(1);
+    expect(queue.saveProgress).toHaveBeenCalled();
+
+    // Очередь повторяет задачу с тем же содержимым
+    const [handler] = queue.process.mock.calls[0] as [JobHandler<BundleJob>];
+    const [, payload] = queue.enqueue.mock.calls[0] as [string, BundleJob];
+    await handler(payload, {} as never);
+
+    expect(replies().map((reply) => reply.message)).toEqual([
+      'Ваш бандл готов! Обложки для Neo:',
+      'Аватар и архив со всеми файлами:',
+    ]);
+    expect(requestRegistry.complete).toHaveBeenCalledWith(
+      '-1_5',
+      `https://vk.com/wall-1_10?reply=${gateway.comments[0].id}&thread=5`,
+    );
+  });
+
+  it('should post covers while the avatar is still rendering', async () => {
+    let finishAvatar: (image: Buffer) => void = () => undefined;
+    imageProcessing.startBundle.mockResolvedValue({
+      cover: Promise.resolve(Buffer.from('cover')),
+      avatar: new Promise<Buffer>((resolve) => (finishAvatar = resolve)),
+    });
+
+    const handled = gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+    while (!gateway.comments.length) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    expect(replies()).toEqual([
+      {
+        replyTo: 5,
+        message: 'Ваш бандл готов! Обложки для Neo:',
+        files: ['Neo_cover.png'],
+      },
+    ]);
+
+    finishAvatar(Buffer.from('avatar'));
+    await handled;
+    expect(replies()[1].files).toEqual(['Neo_avatar.png', 'bundle_Neo.zip']);
+  });
+
+  it('should reuse the rendered bundle and attachments for a repeated nickname', async () => {
+    const comment = { ownerId: -1, postId: 10, fromId: 7, text: 'ник Neo' };
+    await gateway.emitComment({ ...comment, commentId: 5 });
+    const uploads = gateway.calls.length;
+    await gateway.emitComment({ ...comment, commentId: 6, fromId: 8 });
+
+    expect(imageProcessing.startBundle).toHaveBeenCalledTimes(1);
+    expect(gateway.calls.slice(uploads).map((call) => call.method)).toEqual([
+      'wall.createComment',
+      'wall.createComment',
+    ]);
+    expect(gateway.comments[2].attachments).toEqual(
+      gateway.comments[0].attachments,
+    );
+    expect(gateway.comments[3].attachments).toEqual(
+      gateway.comments[1].attachments,
+    );
+  });
+
+  it('should render again after the templates change', async () => {
+    const comment = { ownerId: -1, postId: 10, fromId: 7, text: 'ник Neo' };
+    await gateway.emitComment({ ...comment, commentId: 5 });
+    imageProcessing.getTemplateVersion.mockResolvedValue('v2');
+    await gateway.emitComment({ ...comment, commentId: 6, fromId: 8 });
+
+    expect(imageProcessing.startBundle).toHaveBeenCalledTimes(2);
+    expect(gateway.comments[2].attachments).not.toEqual(
+      gateway.comments[0].attachments,
+    );
+  });
+
+  it('should replace the bundle when the nickname in a comment is edited', async () => {
+    const comment = { ownerId: -1, postId: 10, commentId: 5, fromId: 7 };
+    await gateway.emitComment({ ...comment, text: 'ник Nea' });
+    const oldDocs = gateway.comments.flatMap((reply) => reply.attachments);
+
+    await gateway.emitCommentEdit({ ...comment, text: 'ник Neo' });
+
+    expect(replies()).toEqual([
+      {
+        replyTo: 5,
+        message: 'Ваш бандл готов! Обложки для Neo:',
+        files: ['Neo_cover.png'],
+      },
+      {
+        replyTo: 5,
+        message: 'Аватар и архив со всеми файлами:',
+        files: ['Neo_avatar.png', 'bundle_Neo.zip'],
+      },
+    ]);
+    expect(oldDocs.filter((doc) => gateway.files.has(doc))).toEqual([]);
+    // Квоту пользователя правка не расходует: запрос в реестре тот же
+    expect(requestRegistry.reserve).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: '-1_5', nickname: 'Neo' }),
+    );
+
+    const calls = gateway.calls.length;
+    await gateway.emitCommentEdit({ ...comment, text: 'Ник: Neo' });
+    expect(gateway.calls.length).toBe(calls);
+  });
+
+  it('should remove replies and docs no other reply uses when a comment is deleted', async () => {
+    const comment = { ownerId: -1, postId: 10, text: 'ник Neo' };
+    await gateway.emitComment({ ...comment, commentId: 5, fromId: 7 });
+    await gateway.emitComment({ ...comment, commentId: 6, fromId: 8 });
+    const docs = gateway.comments[0].attachments;
+
+    await gateway.emitCommentDelete({ ownerId: -1, postId: 10, commentId: 5 });
+
+    // Бандл взят из кэша, и его документы еще прикреплены к ответам на комментарий 6
+    expect(replies().map((reply) => reply.replyTo)).toEqual([6, 6]);
+    expect(docs.every((doc) => gateway.files.has(doc))).toBe(true);
+
+    await gateway.emitCommentDelete({ ownerId: -1, postId: 10, commentId: 6 });
+
+    expect(replies()).toEqual([]);
+    expect(docs.some((doc) => gateway.files.has(doc))).toBe(false);
+
+    // Кэш больше не ссылается на удаленные документы
+    await gateway.emitComment({ ...comment, commentId: 9, fromId: 9 });
+    expect(imageProcessing.startBundle).toHaveBeenCalledTimes(1);
+    expect(replies().flatMap((reply) => reply.files)).toEqual([
+      'Neo_cover.png',
+      'Neo_avatar.png',
+      'bundle_Neo.zip',
+    ]);
+  });
+
+  it('should not answer a comment deleted before its bundle is ready', async () => {
+    let finishAvatar: (image: Buffer) => void = () => undefined;
+    imageProcessing.startBundle.mockResolvedValue({
+      cover: Promise.resolve(Buffer.from('cover')),
+      avatar: new Promise<Buffer>((resolve) => (finishAvatar = resolve)),
+    });
+
+    const handled = gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+    while (!gateway.comments.length) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    await gateway.emitCommentDelete({ ownerId: -1, postId: 10, commentId: 5 });
+    finishAvatar(Buffer.from('avatar'));
+    await handled;
+
+    expect(replies()).toEqual([]);
+  });
+
+  it('should render attached photos into templates without caching them', async () => {
+    const server = http.createServer((request, response) => {
+      response.statusCode = request.url === '/photo.jpg' ? 200 : 404;
+      response.end('photo');
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    imageProcessing.getLayouts.mockResolvedValue([
+      { name: 'cover', reply: 'first' },
+      { name: 'avatar', reply: 'second', photo: { shape: 'circle' } },
+    ]);
+
+    try {
+      const comment = { ownerId: -1, postId: 10, fromId: 7, text: 'ник Neo' };
+      await gateway.emitComment({
+        ...comment,
+        commentId: 5,
+        photoUrl: `http://127.0.0.1:${port}/photo.jpg`,
+      });
+      await gateway.emitComment({
+        ...comment,
+        commentId: 6,
+        photoUrl: `http://127.0.0.1:${port}/photo.jpg`,
+      });
+      // Битая ссылка не мешает выдать бандл без фото
+      await gateway.emitComment({
+        ...comment,
+        commentId: 7,
+        photoUrl: `http://127.0.0.1:${port}/missing.jpg`,
+      });
+    } finally {
+      server.close();
+    }
+
+    const photo = { data: Buffer.from('photo'), info: {} };
+    expect(imageProcessing.startBundle.mock.calls).toEqual([
+      ['Neo', expect.anything(), photo],
+      ['Neo', expect.anything(), photo],
+      ['Neo', expect.anything()],
+    ]);
+    expect(replies().map((reply) => reply.files)).toEqual([
+      ['Neo_cover.png'],
+      ['Neo_avatar.png', 'bundle_Neo.zip'],
+      ['Neo_cover.png'],
+      ['Neo_avatar.png', 'bundle_Neo.zip'],
+      ['Neo_cover.png'],
+      ['Neo_avatar.png', 'bundle_Neo.zip'],
+    ]);
+  });
+
+  it('should count comments, nicknames, renders and uploads', async () => {
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 6,
+      fromId: 7,
+      text: 'просто комментарий',
+    });
+
+    const text = module.get(MetricsService).render();
+    expect(text).toContain('bot_comments_total 2\n');
+    expect(text).toContain(
+      'bot_nicknames_extracted_total{source="comment"} 1\n',
+    );
+    expect(text).toContain('bot_bundles_total{source="render"} 1\n');
+    expect(text).toContain(
+      'bot_render_duration_seconds_count{layout="avatar"} 1\n',
+    );
+    expect(text).not.toContain(
+      'bot_upload_duration_seconds_count{type="photo"}',
+    );
+    expect(text).toContain('bot_upload_duration_seconds_count{type="doc"} 3\n');
+  });
+
+  it('should ignore comments without a nickname or campaign', async () => {
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'Классный пост',
+    });
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 11,
+      commentId: 6,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+
+    expect(gateway.calls).toEqual([]);
+  });
+
+  it('should not take the replies of the bot for new requests', async () => {
+    const campaigns = module.get<CampaignsService>(CampaignsService);
+    const [campaign] = campaigns.getAll();
+    // Ответ бота в ветке приходит тем же событием, что и комментарий пользователя
+    const reply = {
+      ownerId: -1,
+      postId: 10,
+      commentId: 6,
+      fromId: -1,
+      text: campaigns.formatMessage(campaign.messages.invalidNickname, {
+        nickname: 'Neo!',
+        reason: 'символы ! не разрешены',
+      }),
+    };
+
+    await gateway.emitComment(reply);
+    await gateway.emitCommentEdit(reply);
+
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(gateway.calls).toEqual([]);
+  });
+
+  it('should explain rejected requests without rendering', async () => {
+    requestRegistry.reserve.mockResolvedValue({
+      allowed: false,
+      reason: 'post-limit',
+      limit: 1,
+    });
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+
+    expect(gateway.calls.map((call) => call.method)).toEqual([
+      'wall.createComment',
+    ]);
+    expect(replies()).toEqual([
+      {
+        replyTo: 5,
+        message: expect.stringContaining('не больше 1') as string,
+        files: [],
+      },
+    ]);
+    await expect(
+      module.get(HistoryService).findLast('-1_5'),
+    ).resolves.toMatchObject({
+      status: 'rejected',
+      reason: 'post-limit',
+      userId: 7,
+      nickname: 'Neo',
+    });
+  });
+
+  it('should keep the history of issued bundles and regenerate them on request', async () => {
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+    const history = module.get(HistoryService);
+    const record = await history.findLast('-1_5');
+
+    expect(record).toMatchObject({
+      requestId: '-1_5',
+      campaignId: 'default',
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      userId: 7,
+      nickname: 'Neo',
+      kind: 'bundle',
+      status: 'issued',
+      resultUrl: `https://vk.com/wall-1_10?reply=${gateway.comments[0].id}&thread=5`,
+      attachments: gateway.comments.flatMap((reply) => reply.attachments),
+    });
+
+    const service = module.get<VkService>(VkService);
+    await expect(service.reissue(record!, true)).resolves.toMatch(
+      /^regenerate_-1_5_\d+$/,
+    );
+
+    // Прежние ответы заменены новыми, бандл нарисован заново без учета лимитов
+    expect(imageProcessing.startBundle).toHaveBeenCalledTimes(2);
+    expect(requestRegistry.reserve).toHaveBeenCalledTimes(1);
+    expect(replies().map((reply) => reply.files)).toEqual([
+      ['Neo_cover.png'],
+      ['Neo_avatar.png', 'bundle_Neo.zip'],
+    ]);
+    expect(gateway.comments[0].attachments).not.toEqual(
+      record?.attachments?.slice(0, 1),
+    );
+    await expect(history.find({ userId: 7 })).resolves.toHaveLength(2);
+  });
+
+  it('should list unmet giveaway conditions and check them again on the next comment', async () => {
+    const campaigns = module.get<CampaignsService>(CampaignsService);
+    for (const campaign of campaigns.getAll()) {
+      campaign.eligibility = { member: true, like: true, repost: false };
+    }
+    gateway.likes.add(7);
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+
+    expect(replies()).toEqual([
+      {
+        replyTo: 5,
+        message:
+          'Чтобы получить бандл для Neo, осталось подписаться на сообщество. Когда все будет готово, напишите еще один комментарий или сообщение - проверим снова.',
+        files: [],
+      },
+    ]);
+    expect(requestRegistry.reserve).not.toHaveBeenCalled();
+    expect(imageProcessing.startBundle).not.toHaveBeenCalled();
+
+    gateway.members.add(7);
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 6,
+      fromId: 7,
+      text: 'Подписался!',
+    });
+
+    // Бандл приходит в ветку исходного комментария
+    expect(replies().slice(1)).toEqual([
+      {
+        replyTo: 5,
+        message: 'Ваш бандл готов! Обложки для Neo:',
+        files: ['Neo_cover.png'],
+      },
+      {
+        replyTo: 5,
+        message: 'Аватар и архив со всеми файлами:',
+        files: ['Neo_avatar.png', 'bundle_Neo.zip'],
+      },
+    ]);
+    expect(queue.enqueue).toHaveBeenLastCalledWith(
+      'recheck_-1_5_comment_-1_6',
+      expect.objectContaining({ commentId: 5, nickname: 'Neo' }),
+    );
+
+    // Условия выполнены, ждущих запросов больше нет
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 7,
+      fromId: 7,
+      text: 'Спасибо!',
+    });
+    expect(replies()).toHaveLength(3);
+  });
+
+  it('should send the bundle by private message and point the comment there', async () => {
+    useDelivery('message');
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+
+    expect(messages()).toEqual([
+      {
+        peerId: 7,
+        message:
+          'Ваш бандл для Neo готов: обложки, аватар и архив со всеми файлами.',
+        files: ['Neo_cover.png', 'Neo_avatar.png', 'bundle_Neo.zip'],
+      },
+    ]);
+    expect(gateway.messages[0].attachments[0]).toMatch(/^doc-1_/);
+    expect(replies()).toEqual([
+      {
+        replyTo: 5,
+        message: 'Отправили бандл в личные сообщения сообщества',
+        files: [],
+      },
+    ]);
+    expect(requestRegistry.complete).toHaveBeenCalledWith(
+      '-1_5',
+      'https://vk.com/im?sel=-1',
+    );
+  });
+
+  it('should fall back to comments when messages are not allowed', async () => {
+    useDelivery('message');
+    gateway.blockedPeers.add(7);
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+
+    expect(messages()).toEqual([]);
+    expect(replies().map((reply) => reply.files)).toEqual([
+      ['Neo_cover.png'],
+      ['Neo_avatar.png', 'bundle_Neo.zip'],
+    ]);
+  });
+
+  it('should answer both in comments and messages', async () => {
+    useDelivery('both');
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Neo',
+    });
+
+    expect(messages()).toHaveLength(1);
+    expect(replies()).toHaveLength(2);
+    expect(requestRegistry.complete).toHaveBeenCalledWith(
+      '-1_5',
+      `https://vk.com/wall-1_10?reply=${gateway.comments[0].id}&thread=5`,
+    );
+  });
+
+  it('should accept requests sent as private messages', async () => {
+    useDelivery('message');
+
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 7,
+      fromId: 7,
+      text: 'ник: Neo',
+    });
+
+    expect(replies()).toEqual([]);
+    // Очередь в тесте выполняет задачу сразу, поэтому бандл приходит раньше подтверждения
+    expect(messages().map((message) => message.files)).toEqual([
+      ['Neo_cover.png', 'Neo_avatar.png', 'bundle_Neo.zip'],
+      [],
+    ]);
+    expect(messages()[1].message).toContain('Запрос для ника Neo принят');
+    expect(requestRegistry.reserve).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'message_7_3',
+        postKey: '-1_10',
+        campaignId: 'default',
+      }),
+    );
+    expect(
+      gateway.calls
+        .filter((call) => call.method === 'messages.send')
+        .map((call) => (call.params as { keyboard?: string }).keyboard),
+    ).toEqual([COMMANDS_KEYBOARD, COMMANDS_KEYBOARD]);
+  });
+
+  it('should explain that no campaign delivers to private messages', async () => {
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 7,
+      fromId: 7,
+      text: '/bundle Neo',
+    });
+
+    expect(gateway.calls.map((call) => call.method)).toEqual(['messages.send']);
+    expect(messages()[0].message).toContain('не выдаются');
+  });
+
+  it('should send a single avatar for /preview without using the limits', async () => {
+    useDelivery('message');
+
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 7,
+      fromId: 7,
+      text: '/preview Neo',
+    });
+
+    expect(imageProcessing.renderLayout).toHaveBeenCalledWith(
+      'Neo',
+      expect.objectContaining({ name: 'avatar' }),
+      expect.objectContaining({ id: 'default' }),
+      undefined,
+    );
+    expect(messages()[0]).toEqual({
+      peerId: 7,
+      message: expect.stringContaining('аватар для ника Neo') as string,
+      files: ['photo.png'],
+    });
+    expect(gateway.messages[0].attachments[0]).toMatch(/^photo-1_/);
+    expect(requestRegistry.reserve).not.toHaveBeenCalled();
+  });
+
+  it('should ask for a nickname after /bundle', async () => {
+    useDelivery('message');
+
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 7,
+      fromId: 7,
+      text: '/bundle',
+    });
+
+    expect(messages().map((message) => message.message)).toEqual([
+      'Напишите ник после команды, например: /bundle Neo',
+    ]);
+  });
+
+  it('should report the queue position for /status', async () => {
+    queue.find.mockResolvedValue([
+      { id: 'message_7_3', status: 'pending', payload: { nickname: 'Neo' } },
+    ]);
+    queue.getPosition.mockResolvedValue(2);
+
+    await gateway.emitMessage({
+      messageId: 4,
+      peerId: 7,
+      fromId: 7,
+      text: '/status',
+    });
+
+    expect(messages().map((message) => message.message)).toEqual([
+      'Ник Neo: в очереди, место 2',
+    ]);
+  });
+
+  it('should resend the last issued bundle for /again', async () => {
+    requestRegistry.findLastIssued.mockResolvedValue({
+      id: '-1_5',
+      nickname: 'Neo',
+      campaignId: 'default',
+    });
+
+    await gateway.emitMessage({
+      messageId: 4,
+      peerId: 7,
+      fromId: 7,
+      text: '',
+      command: 'again',
+    });
+
+    expect(messages().map((message) => message.files)).toEqual([
+      ['Neo_cover.png', 'Neo_avatar.png', 'bundle_Neo.zip'],
+    ]);
+    expect(requestRegistry.reserve).not.toHaveBeenCalled();
+    expect(requestRegistry.complete).not.toHaveBeenCalled();
+  });
+
+  it('should answer unknown commands and buttons with help', async () => {
+    await gateway.emitMessage({
+      messageId: 4,
+      peerId: 7,
+      fromId: 7,
+      text: 'Начать',
+      command: 'start',
+    });
+    await gateway.emitMessage({
+      messageId: 5,
+      peerId: 7,
+      fromId: 7,
+      text: '/unknown',
+    });
+
+    expect(messages().map((message) => message.message)).toEqual([
+      HELP_TEXT,
+      HELP_TEXT,
+    ]);
+  });
+
+  it('should explain what to fix in a nickname that breaks the rules', async () => {
+    module
+      .get<CampaignsService>(CampaignsService)
+      .getAll()[0].nickname.maxLength = 5;
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Trinity',
+    });
+
+    expect(replies()).toEqual([
+      {
+        replyTo: 5,
+        message:
+          'Не получится сделать бандл для «Trinity»: длина ника должна быть не больше 5. Исправьте и напишите еще раз.',
+        files: [],
+      },
+    ]);
+    expect(requestRegistry.reserve).not.toHaveBeenCalled();
+  });
+
+  it('should hint the command when a private message has no nickname', async () => {
+    useDelivery('message');
+
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 7,
+      fromId: 7,
+      text: 'Привет!',
+    });
+
+    expect(messages().map((message) => message.message)).toEqual([
+      'Не нашли никнейм в сообщении. Напишите его после команды, например: /bundle Neo',
+    ]);
+  });
+
+  it('should hold flagged nicknames until an admin approves them', async () => {
+    module
+      .get<CampaignsService>(CampaignsService)
+      .getAll()[0].moderation.blocklist = ['admin'];
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Admin',
+    });
+
+    expect(replies().map((reply) => reply.message)).toEqual([
+      '«Admin» отправлен на проверку модератору. Бандл придет, как только его одобрят.',
+    ]);
+    await echoReplies();
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    expect(messages()).toEqual([
+      expect.objectContaining({
+        peerId: 100,
+        message: expect.stringContaining('/approve 1') as string,
+      }),
+    ]);
+    expect(imageProcessing.startBundle).not.toHaveBeenCalled();
+
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 100,
+      fromId: 100,
+      text: '/edit 1 Neo',
+    });
+
+    expect(imageProcessing.startBundle).toHaveBeenCalledWith(
+      'Neo',
+      expect.anything(),
+    );
+    expect(
+      replies()
+        .slice(1)
+        .map((reply) => reply.files),
+    ).toEqual([['Neo_cover.png'], ['Neo_avatar.png', 'bundle_Neo.zip']]);
+    expect(messages()[1].message).toBe('Заявка 1 рассмотрена');
+  });
+
+  it('should clean and check the nickname an admin edits', async () => {
+    module
+      .get<CampaignsService>(CampaignsService)
+      .getAll()[0].moderation.blocklist = ['admin'];
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Admin',
+    });
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 100,
+      fromId: 100,
+      text: `/edit 1 ${'Ж'.repeat(33)}`,
+    });
+
+    expect(messages()[1].message).toBe(
+      `Ник «${'Ж'.repeat(33)}» не подходит: длина ника должна быть не больше 32`,
+    );
+    expect(imageProcessing.startBundle).not.toHaveBeenCalled();
+
+    await gateway.emitMessage({
+      messageId: 4,
+      peerId: 100,
+      fromId: 100,
+      text: '/edit 1 ../Neo\u0007',
+    });
+
+    expect(imageProcessing.startBundle).toHaveBeenCalledWith(
+      '..Neo',
+      expect.anything(),
+    );
+    expect(messages()[2].message).toBe('Заявка 1 рассмотрена');
+  });
+
+  it('should keep the entry when the decision cannot be applied', async () => {
+    module
+      .get<CampaignsService>(CampaignsService)
+      .getAll()[0].moderation.blocklist = ['admin'];
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник Admin',
+    });
+    queue.enqueue.mockRejectedValueOnce(new Error('Диск заполнен'));
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 100,
+      fromId: 100,
+      text: '/approve 1',
+    });
+
+    expect(messages()[1].message).toBe(
+      'Не удалось применить решение по заявке 1, она осталась в очереди. Повторите команду позже.',
+    );
+    await expect(
+      module.get<ModerationService>(ModerationService).getPending(),
+    ).resolves.toHaveLength(1);
+  });
+
+  it('should tell the user when an admin rejects the nickname', async () => {
+    module
+      .get<CampaignsService>(CampaignsService)
+      .getAll()[0].moderation.holdLinks = true;
+
+    await gateway.emitComment({
+      ownerId: -1,
+      postId: 10,
+      commentId: 5,
+      fromId: 7,
+      text: 'ник neo.ru',
+    });
+    await module
+      .get<ModerationService>(ModerationService)
+      .decide('1', { action: 'reject' }, 'http');
+
+    expect(replies().map((reply) => reply.message)).toEqual([
+      expect.stringContaining('на проверку') as string,
+      'Модератор не одобрил «neo.ru», поэтому бандл не будет создан.',
+    ]);
+    await echoReplies();
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    expect(imageProcessing.startBundle).not.toHaveBeenCalled();
+  });
+
+  it('should hide moderation commands from regular users', async () => {
+    await gateway.emitMessage({
+      messageId: 3,
+      peerId: 7,
+      fromId: 7,
+      text: '/approve 1',
+    });
+
+    expect(messages().map((message) => message.message)).toEqual([HELP_TEXT]);
   });
 });
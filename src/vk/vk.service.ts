@@ -1,200 +1,909 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import type { Params } from 'vk-io';
 import {
-  VK,
-  CommentContext,
-  ContextDefaultState,
-  PhotoAttachment,
-} from 'vk-io';
-import { ImageProcessingService } from '../image-processing/image-processing.service';
-import { Bundle } from '../types/bundle.type';
+  DecodedImage,
+  ImageProcessingService,
+} from '../image-processing/image-processing.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { ArchiveService } from '../archive/archive.service';
+import { QueueService } from '../queue/queue.service';
+import { NicknameCheck, NicknameService } from '../nickname/nickname.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { UploadCacheService } from '../upload-cache/upload-cache.service';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  CommentRepliesService,
+  RemovedReplies,
+} from '../comment-replies/comment-replies.service';
+import { CatchUpService } from './catch-up.service';
+import { EligibilityService } from './eligibility.service';
+import { HistoryService } from '../history/history.service';
+import {
+  RequestCheck,
+  RequestRegistryService,
+} from '../request-registry/request-registry.service';
+import { Bundle, PendingBundle } from '../types/bundle.type';
+import {
+  BundleJob,
+  BundleJobKind,
+  DeliveredStep,
+  DeliveryStep,
+} from '../types/bundle-job.type';
+import {
+  DeletedComment,
+  IncomingComment,
+} from '../types/incoming-comment.type';
+import { IncomingMessage } from '../types/incoming-message.type';
+import { HistoryRecord, RunOutcome } from '../types/history.type';
+import { Job } from '../types/job.type';
+import {
+  ModerationDecision,
+  ModerationEntry,
+  ModerationReason,
+} from '../types/moderation.type';
+import {
+  Campaign,
+  EligibilityRequirement,
+  NicknameAlphabet,
+  NicknameRules,
+} from '../types/campaign.type';
+import { TemplateLayout } from '../types/template-layout.type';
+import {
+  AttachmentChannel,
+  CachedAttachments,
+} from '../types/upload-cache.type';
+import {
+  isMessagesForbidden,
+  SavedDocument,
+  UploadServer,
+  VkActor,
+  VkGateway,
+} from './vk-gateway';
+import {
+  ADMIN_HELP_TEXT,
+  COMMANDS_KEYBOARD,
+  HELP_TEXT,
+  MessageCommand,
+  parseCommand,
+} from './message-commands';
 import fetch from 'node-fetch';
 import * as FormData from 'form-data';
-import * as archiver from 'archiver';
+
+// Все, что нужно отправить пользователю: картинки, их шаблоны и архив.
+// Файлы еще могут рисоваться, поэтому отправка берет каждый по готовности.
+interface RenderedBundle {
+  images: PendingBundle;
+  layouts: TemplateLayout[];
+  archive: Promise<Buffer>;
+  // Ключ в кэше, когда бандл туда сохранен. Бандлы с фото пользователя не кэшируются
+  cacheKey?: Promise<string>;
+  // Уже загруженные в VK файлы этого бандла
+  attachments: Partial<Record<AttachmentChannel, CachedAttachments>>;
+}
+
+// Куда ушел бандл: ссылка для пользователя и все отправленные вложения
+interface Delivery {
+  url: string;
+  attachments: string[];
+}
+
+// Вложения, которые еще загружаются
+interface PendingAttachments {
+  docs: Record<string, Promise<string>>;
+  archive: Promise<string>;
+}
+
+// Промис, результат которого понадобится позже. Пока до него не дошла очередь,
+// его ошибка не должна считаться необработанной - ее получит тот, кто будет ждать.
+function background<T>(promise: Promise<T>): Promise<T> {
+  promise.catch(() => undefined);
+  return promise;
+}
+
+const ALPHABET_NAMES: Record<NicknameAlphabet, string> = {
+  latin: 'латиницу',
+  cyrillic: 'кириллицу',
+  digits: 'цифры',
+  symbols: 'знаки препинания',
+};
+
+const ELIGIBILITY_NAMES: Record<EligibilityRequirement, string> = {
+  member: 'подписаться на сообщество',
+  like: 'поставить лайк посту',
+  repost: 'сделать репост поста',
+};
+
+const MODERATION_REASON_NAMES: Record<ModerationReason, string> = {
+  blocklist: 'слово из списка',
+  'mixed-scripts': 'латиница вперемешку с кириллицей',
+  link: 'похоже на ссылку',
+};
+
+// Фото пользователя для шаблонов: VK отдает копии до нескольких мегабайт
+const PHOTO_MAX_BYTES = 20 * 1024 * 1024;
+const PHOTO_TIMEOUT_MS = 15000;
+
+// Ответ upload-сервера VK на загрузку фото
+interface PhotoUploadResult {
+  photo: string;
+  server: number;
+  hash: string;
+}
 
 @Injectable()
 export class VkService implements OnModuleInit {
-  #vk: VK;
-  #vkUser: VK;
   #configService: ConfigService;
 
-  // Функция для создания случайной задержки от 1 до 3 секунд
-  private async delay(): Promise<void> {
-    const delayMs = Math.floor(Math.random() * 2000) + 1000; // 1000-3000ms
-    await new Promise((resolve) => setTimeout(resolve, delayMs));
-  }
-
   constructor(
     configService: ConfigService,
+    private readonly vkGateway: VkGateway,
     private readonly imageProcessingService: ImageProcessingService,
+    private readonly queueService: QueueService,
+    private readonly requestRegistryService: RequestRegistryService,
+    private readonly campaignsService: CampaignsService,
+    private readonly archiveService: ArchiveService,
+    private readonly nicknameService: NicknameService,
+    private readonly moderationService: ModerationService,
+    private readonly uploadCacheService: UploadCacheService,
+    private readonly metricsService: MetricsService,
+    private readonly catchUpService: CatchUpService,
+    private readonly commentRepliesService: CommentRepliesService,
+    private readonly eligibilityService: EligibilityService,
+    private readonly historyService: HistoryService,
   ) {
     this.#configService = configService;
+  }
 
-    const groupToken = this.#configService.get<string>('VK_GROUP_TOKEN');
-    const userToken = this.#configService.get<string>('VK_USER_TOKEN');
+  async onModuleInit() {
+    if (!this.vkGateway.enabled) {
+      return;
+    }
 
-    if (!groupToken || !userToken) {
-      throw new Error('VK tokens are not defined in environment variables');
+    try {
+      await this.queueService.process<BundleJob>(
+        this.#handleJob,
+        this.#handleFailedJob,
+      );
+      this.vkGateway.onComment(this.#handleIncomingComment);
+      this.vkGateway.onCommentEdit(this.#handleCommentEdit);
+      this.vkGateway.onCommentDelete(this.#handleCommentDelete);
+      this.vkGateway.onMessage(this.#handleIncomingMessage);
+      this.moderationService.onDecision(this.#handleModerationDecision);
+      await this.vkGateway.start();
+      this.#catchUp();
+    } catch (error) {
+      console.error('Failed to start VK updates:', error);
     }
+  }
 
-    // Инстанс для работы от имени группы (для прослушивания событий)
-    this.#vk = new VK({
-      token: groupToken,
-      pollingGroupId: Math.abs(
-        Number(this.#configService.get<string>('GROUP_ID')),
-      ),
-    });
+  /**
+   * Отправляет бандл из истории еще раз, туда же, куда он ушел в первый раз.
+   * fresh - нарисовать заново и заменить прежние ответы в комментариях.
+   * Возвращает id задачи или undefined, если акции больше нет.
+   */
+  async reissue(
+    record: HistoryRecord,
+    fresh: boolean,
+  ): Promise<string | undefined> {
+    if (!this.campaignsService.getById(record.campaignId)) {
+      return undefined;
+    }
 
-    // Инстанс для работы от имени пользователя (для загрузки фото)
-    this.#vkUser = new VK({
-      token: userToken,
+    // Задачи старше текущей правки комментария пропускаются, поэтому берем ее номер
+    let revision: number | undefined;
+    const replies = record.commentId
+      ? await this.commentRepliesService.get(record.ownerId, record.commentId)
+      : undefined;
+    if (replies && record.commentId) {
+      revision = fresh
+        ? await this.commentRepliesService.revise(
+            record.ownerId,
+            record.commentId,
+            replies.nickname,
+          )
+        : replies.revision;
+    }
+
+    const id = `${fresh ? 'regenerate' : 'resend'}_${record.requestId}_${Date.now()}`;
+    await this.#enqueue(id, {
+      campaignId: record.campaignId,
+      ownerId: record.ownerId,
+      postId: record.postId,
+      commentId: record.commentId,
+      messageId: record.messageId,
+      fromId: record.userId,
+      nickname: record.nickname,
+      photoUrl: record.photoUrl,
+      kind: 'resend',
+      revision,
+      replaceReplies: fresh,
+      fresh,
     });
+    return id;
   }
 
-  async onModuleInit() {
+  // Ищем пропущенное уже после запуска, чтобы не потерять новые комментарии.
+  // Если комментарий пришел и так, повтор отсеет очередь по id задачи
+  #catchUp = async (): Promise<void> => {
     try {
-      await this.#startPolling();
+      const missed = await this.catchUpService.findMissed();
+      if (missed.length) {
+        console.log(`Пропущенных комментариев с ником: ${missed.length}`);
+      }
+      for (const comment of missed) {
+        await this.#handleIncomingComment(comment);
+      }
     } catch (error) {
-      console.error('Failed to start VK polling:', error);
+      console.error('Не удалось обработать пропущенные комментарии:', error);
     }
-  }
-
-  #startPolling = async () => {
-    console.log('Starting VK polling...');
+  };
 
-    this.#vk.updates.on('message_new', (context) => {
-      console.log('Новое сообщение:', context);
-    });
+  #handleIncomingComment = async (event: IncomingComment): Promise<void> => {
+    // Ответы сообщества, в том числе самого бота: из них тоже извлекся бы ник
+    if (event.fromId <= 0) {
+      return;
+    }
 
-    this.#vk.updates.on('wall_post_new', (context) => {
-      console.log('Новый пост:', context);
-    });
+    this.metricsService.increment('bot_comments_total');
+    try {
+      const campaign = this.campaignsService.findByPost(
+        event.ownerId,
+        event.postId,
+      );
+      console.log('Акция для поста:', campaign?.id ?? 'не найдена');
 
-    this.#vk.updates.on(
-      'wall_reply_new',
-      async (context: CommentContext<ContextDefaultState>) => {
-        console.log('=== Новый комментарий ===');
-        console.log('Текст:', context.text);
-        console.log('ID поста:', context.wallPostId);
-        console.log('Полный контекст:', JSON.stringify(context, null, 2));
-
-        try {
-          const targetPostId =
-            this.#configService.get<string>('TARGET_POST_ID') || '';
-          console.log('Целевой пост из конфига:', targetPostId);
-
-          const postId = context.objectId?.toString() || '';
-          console.log('Сравниваем:', {
-            current: postId,
-            target: targetPostId,
-            matches: postId === targetPostId,
+      if (event.text && campaign) {
+        const nickname = this.nicknameService.extract(
+          event.text,
+          campaign.nickname,
+        );
+        console.log('Извлеченный ник:', nickname);
+        // На комментарии без ника не отвечаем: под постом идет и обычное обсуждение
+        if (nickname) {
+          this.metricsService.increment('bot_nicknames_extracted_total', {
+            source: 'comment',
           });
-
-          if (context.text && postId === targetPostId) {
-            const nickname = this.#extractNickname(context.text);
-            console.log('Извлеченный ник:', nickname);
-            if (nickname) {
-              await this.#handleComment(context, nickname);
-            } else {
-              console.log('Ник не найден в комментарии');
-            }
-          } else {
-            console.log('Комментарий не соответствует условиям');
-          }
-        } catch (error) {
-          console.error('Error processing comment:', error);
+          await this.#enqueueComment(event, campaign, nickname);
+        } else {
+          console.log('Ник не найден в комментарии');
+          await this.#recheckWaiting(
+            event.fromId,
+            `comment_${event.ownerId}_${event.commentId}`,
+          );
         }
-      },
+      } else {
+        console.log('Комментарий не соответствует условиям');
+      }
+    } catch (error) {
+      console.error('Error processing comment:', error);
+    }
+  };
+
+  // Пользователь исправил комментарий: если ник в нем изменился, бандл рисуется заново
+  #handleCommentEdit = async (event: IncomingComment): Promise<void> => {
+    if (event.fromId <= 0) {
+      return;
+    }
+
+    try {
+      const record = await this.commentRepliesService.get(
+        event.ownerId,
+        event.commentId,
+      );
+      if (!record) {
+        // В комментарии раньше не было ника - теперь это обычный запрос
+        await this.#handleIncomingComment(event);
+        return;
+      }
+
+      const campaign = this.campaignsService.findByPost(
+        event.ownerId,
+        event.postId,
+      );
+      const nickname =
+        campaign && this.nicknameService.extract(event.text, campaign.nickname);
+      if (!campaign || !nickname || record.deleted) {
+        console.log(`В исправленном комментарии ${record.id} нет ника`);
+        return;
+      }
+      if (nickname === record.nickname) {
+        console.log(`Ник в комментарии ${record.id} не изменился`);
+        return;
+      }
+
+      this.metricsService.increment('bot_nicknames_extracted_total', {
+        source: 'comment',
+      });
+      const revision = await this.commentRepliesService.revise(
+        event.ownerId,
+        event.commentId,
+        nickname,
+      );
+      await this.#enqueue(
+        `edit_${event.ownerId}_${event.commentId}_${revision}`,
+        {
+          campaignId: campaign.id,
+          ownerId: event.ownerId,
+          postId: event.postId,
+          commentId: event.commentId,
+          fromId: event.fromId,
+          nickname,
+          photoUrl: event.photoUrl,
+          revision,
+          replaceReplies: true,
+        },
+      );
+    } catch (error) {
+      console.error('Error processing comment edit:', error);
+    }
+  };
+
+  // Вместе с комментарием убираем ответы бота и документы, которые больше нигде не прикреплены.
+  // Запрос в реестре остается: иначе удаление открывало бы обход лимитов
+  #handleCommentDelete = async (event: DeletedComment): Promise<void> => {
+    try {
+      const removed = await this.commentRepliesService.takeReplies(
+        event.ownerId,
+        event.commentId,
+        true,
+      );
+      if (!removed) {
+        return;
+      }
+
+      console.log(
+        `Комментарий ${event.ownerId}_${event.commentId} удален, убираем ответов: ${removed.replyIds.length}`,
+      );
+      await this.#removeReplies(event.ownerId, removed);
+    } catch (error) {
+      console.error('Error processing comment delete:', error);
+    }
+  };
+
+  #removeReplies = async (
+    ownerId: number,
+    { replyIds, docs }: RemovedReplies,
+  ): Promise<void> => {
+    for (const replyId of replyIds) {
+      try {
+        await this.vkGateway.deleteComment({
+          owner_id: ownerId,
+          comment_id: replyId,
+        });
+      } catch (error) {
+        // Ответ мог удалить модератор сообщества
+        console.warn(`Не удалось удалить ответ ${replyId}:`, error.message);
+      }
+    }
+
+    // Бандлы из кэша у одинаковых ников общие, такие документы еще нужны другим ответам
+    const unused: string[] = [];
+    for (const doc of docs) {
+      if (!(await this.commentRepliesService.isDocUsed(doc))) {
+        unused.push(doc);
+      }
+    }
+    await this.uploadCacheService.forgetDocs(unused);
+
+    for (const doc of unused) {
+      const [, docOwnerId, docId] = /^doc(-?\d+)_(\d+)$/.exec(doc) ?? [];
+      if (!docId) {
+        continue;
+      }
+      try {
+        await this.vkGateway.deleteDocument({
+          owner_id: Number(docOwnerId),
+          doc_id: Number(docId),
+        });
+      } catch (error) {
+        console.warn(`Не удалось удалить документ ${doc}:`, error.message);
+      }
+    }
+  };
+
+  // Ответ на комментарий запоминаем, чтобы убрать его вместе с комментарием
+  #trackReply = async (
+    job: BundleJob,
+    replyId: number,
+    attachments = '',
+  ): Promise<void> => {
+    if (!job.commentId) {
+      return;
+    }
+
+    const docs = attachments
+      .split(',')
+      .filter((attachment) => attachment.startsWith('doc'));
+    const kept = await this.commentRepliesService.addReply(
+      job.ownerId,
+      job.commentId,
+      replyId,
+      docs,
     );
+    if (!kept) {
+      // Комментарий удалили, пока рисовался бандл
+      await this.#removeReplies(job.ownerId, { replyIds: [replyId], docs });
+    }
+  };
 
-    await this.#vk.updates.start();
-    console.log('VK polling started successfully');
+  #handleIncomingMessage = async (event: IncomingMessage): Promise<void> => {
+    this.metricsService.increment('bot_messages_total');
+    try {
+      const command = parseCommand(event);
+      if (!command) {
+        await this.#handleMessageText(event);
+        return;
+      }
+
+      console.log(`Команда /${command.name} от ${event.fromId}`);
+      switch (command.name) {
+        case 'bundle':
+        case 'preview':
+          await this.#handleNicknameCommand(event, command);
+          break;
+        case 'status':
+          await this.#replyStatus(event);
+          break;
+        case 'again':
+          await this.#resendLast(event);
+          break;
+        case 'help':
+          await this.#sendMessage(
+            event.fromId,
+            this.moderationService.isAdmin(event.fromId)
+              ? `${HELP_TEXT}\n\n${ADMIN_HELP_TEXT}`
+              : HELP_TEXT,
+          );
+          break;
+        case 'pending':
+        case 'approve':
+        case 'reject':
+        case 'edit':
+          await this.#handleModerationCommand(event, command);
+          break;
+      }
+    } catch (error) {
+      console.error('Error processing message:', error);
+    }
   };
 
-  #extractNickname = (text: string): string | null => {
-    // Массив возможных форматов
-    const patterns = [
-      /ник:\s*(.*?)(?:\n|$)/i, // ник: nickname или Ник: nickname
-      /ник\s+(.*?)(?:\n|$)/i, // ник nickname или Ник nickname
-    ];
+  // Обычный текст разбираем по шаблонам акции, так же как комментарий
+  #handleMessageText = async (event: IncomingMessage): Promise<void> => {
+    const campaign = this.campaignsService.findForMessages();
+    if (!campaign) {
+      console.log('Нет акции, которая принимает запросы в личных сообщениях');
+      return;
+    }
 
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) {
-        const nickname = match[1].trim();
-        console.log('Найден ник:', nickname);
-        return nickname ? this.#sanitizeNickname(nickname) : null;
+    const nickname = this.nicknameService.extract(
+      event.text,
+      campaign.nickname,
+    );
+    if (!nickname) {
+      console.log('Ник не найден в сообщении');
+      if (
+        !(await this.#recheckWaiting(
+          event.fromId,
+          `message_${event.messageId}`,
+        ))
+      ) {
+        await this.#sendMessage(
+          event.fromId,
+          campaign.messages.nicknameNotFound,
+        );
       }
+      return;
     }
 
-    console.log('Не удалось найти ник в допустимом формате');
-    return null;
+    await this.#requestFromMessage(event, nickname);
   };
 
-  #sanitizeNickname = (nickname: string): string => {
-    return nickname
-      .replace(/[<>{}()/\\]/g, '')
-      .trim()
-      .substring(0, 32);
+  #handleNicknameCommand = async (
+    event: IncomingMessage,
+    command: MessageCommand,
+  ): Promise<void> => {
+    const nickname = this.nicknameService.sanitize(command.argument);
+    if (!nickname) {
+      await this.#sendMessage(
+        event.fromId,
+        `Напишите ник после команды, например: /${command.name} Neo`,
+      );
+      return;
+    }
+
+    await this.#requestFromMessage(
+      event,
+      nickname,
+      command.name === 'preview' ? 'preview' : 'bundle',
+    );
   };
 
-  #sendReply = async (
-    context: CommentContext<ContextDefaultState>,
-    message: string,
+  #requestFromMessage = async (
+    event: IncomingMessage,
+    nickname: string,
+    kind: BundleJobKind = 'bundle',
   ): Promise<void> => {
-    await this.#vk.api.wall.createComment({
-      owner_id: context.ownerId,
-      post_id: context.objectId,
-      reply_to_comment: context.id,
-      message: message,
+    this.metricsService.increment('bot_nicknames_extracted_total', {
+      source: 'message',
     });
+    const campaign = this.campaignsService.findForMessages();
+    if (!campaign) {
+      console.log('Нет акции, которая принимает запросы в личных сообщениях');
+      await this.#sendMessage(
+        event.fromId,
+        'Сейчас бандлы в личных сообщениях не выдаются. Оставьте комментарий с ником под постом акции.',
+      );
+      return;
+    }
+
+    const prefix = kind === 'preview' ? 'preview' : 'message';
+    const added = await this.#enqueue(
+      `${prefix}_${event.fromId}_${event.messageId}`,
+      {
+        campaignId: campaign.id,
+        // Лимиты считаются по посту акции, как и для комментариев
+        ownerId: campaign.ownerId ?? -this.#groupId(),
+        postId: campaign.postId,
+        messageId: event.messageId,
+        fromId: event.fromId,
+        nickname,
+        kind,
+        photoUrl: event.photoUrl,
+      },
+    );
+    if (added) {
+      await this.#sendMessage(
+        event.fromId,
+        kind === 'preview'
+          ? `Рисуем аватар для ника ${nickname}, это займет немного времени.`
+          : `Запрос для ника ${nickname} принят. Бандл придет сюда, а узнать, где он сейчас, можно кнопкой «Статус».`,
+      );
+    }
   };
 
-  private async uploadPhoto(photo: Buffer, groupId: number) {
-    try {
-      await this.delay(); // Добавляем задержку перед запросом
-      const uploadServer = await this.#vkUser.api.photos.getWallUploadServer({
-        group_id: groupId,
-      });
+  // Пользователь написал снова после ответа про условия розыгрыша - проверяем их еще раз.
+  // Запрос остается прежним, поэтому ответ придет туда же, куда пришел бы сразу
+  #recheckWaiting = async (
+    userId: number,
+    trigger: string,
+  ): Promise<boolean> => {
+    const jobs = await this.eligibilityService.takeWaiting(userId);
+    for (const job of jobs) {
+      await this.#enqueue(`recheck_${this.#requestId(job)}_${trigger}`, job);
+    }
+    return jobs.length > 0;
+  };
 
-      if (!uploadServer || !uploadServer.upload_url) {
-        throw new Error('Failed to get upload server URL');
-      }
+  #handleModerationCommand = async (
+    event: IncomingMessage,
+    command: MessageCommand,
+  ): Promise<void> => {
+    // Для остальных пользователей этих команд не существует
+    if (!this.moderationService.isAdmin(event.fromId)) {
+      await this.#sendMessage(event.fromId, HELP_TEXT);
+      return;
+    }
 
-      const form =
-        `--boundary\r\n` +
-        `Content-Disposition: form-data; name="photo"; filename="photo.png"\r\n` +
-        `Content-Type: image/png\r\n\r\n`;
+    if (command.name === 'pending') {
+      const pending = await this.moderationService.getPending();
+      await this.#sendMessage(
+        event.fromId,
+        pending.length
+          ? pending.map(this.#describeEntry).join('\n')
+          : 'Заявок на проверку нет',
+      );
+      return;
+    }
 
-      const endForm = '\r\n--boundary--\r\n';
+    const [id, ...rest] = command.argument.split(/\s+/);
+    const nickname = this.nicknameService.sanitize(rest.join(' '));
+    if (!id || (command.name === 'edit' && !nickname)) {
+      await this.#sendMessage(event.fromId, ADMIN_HELP_TEXT);
+      return;
+    }
 
-      const formBuffer = Buffer.concat([
-        Buffer.from(form, 'utf-8'),
-        photo,
-        Buffer.from(endForm, 'utf-8'),
-      ]);
+    const edited =
+      command.name === 'edit'
+        ? await this.#checkEditedNickname(id, nickname)
+        : undefined;
+    if (edited && !edited.valid) {
+      await this.#sendMessage(event.fromId, edited.problem);
+      return;
+    }
 
-      const uploadResponse = await fetch(uploadServer.upload_url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'multipart/form-data; boundary=boundary',
+    let entry: ModerationEntry | undefined;
+    try {
+      entry = await this.moderationService.decide(
+        id,
+        {
+          action: command.name as ModerationDecision['action'],
+          nickname: edited?.valid ? edited.nickname : undefined,
         },
-        body: formBuffer,
-      });
+        `vk:${event.fromId}`,
+      );
+    } catch (error) {
+      console.error(`Не удалось применить решение по заявке ${id}:`, error);
+      await this.#sendMessage(
+        event.fromId,
+        `Не удалось применить решение по заявке ${id}, она осталась в очереди. Повторите команду позже.`,
+      );
+      return;
+    }
+    await this.#sendMessage(
+      event.fromId,
+      entry
+        ? `Заявка ${id} рассмотрена`
+        : `Заявка ${id} не найдена или уже рассмотрена`,
+    );
+  };
 
-      if (!uploadResponse.ok) {
-        throw new Error(`Upload failed with status: ${uploadResponse.status}`);
+  // Исправленный ник попадает в имена файлов, поэтому проверяем его по правилам акции заявки
+  #checkEditedNickname = async (
+    id: string,
+    nickname: string,
+  ): Promise<
+    { valid: true; nickname: string } | { valid: false; problem: string }
+  > => {
+    const entry = (await this.moderationService.getPending()).find(
+      (item) => item.id === id,
+    );
+    const campaign =
+      entry && this.campaignsService.getById(entry.job.campaignId);
+    if (!campaign) {
+      return { valid: true, nickname };
+    }
+
+    const check = this.nicknameService.validate(nickname, campaign.nickname);
+    return check.valid
+      ? check
+      : {
+          valid: false,
+          problem: `Ник «${nickname}» не подходит: ${this.#describeInvalidNickname(check, campaign.nickname)}`,
+        };
+  };
+
+  #describeEntry = (entry: ModerationEntry): string => {
+    return `${entry.id}: «${entry.job.nickname}» от vk.com/id${entry.job.fromId} (${entry.reasons
+      .map((reason) => MODERATION_REASON_NAMES[reason])
+      .join(', ')})`;
+  };
+
+  #holdForModeration = async (
+    job: BundleJob,
+    campaign: Campaign,
+    reasons: ModerationReason[],
+  ): Promise<void> => {
+    const { entry, created } = await this.moderationService.hold(
+      this.#requestId(job),
+      job,
+      reasons,
+    );
+    if (!created) {
+      return;
+    }
+
+    console.log(
+      `Ник ${job.nickname} отправлен на модерацию: ${reasons.join(', ')}`,
+    );
+    await this.#sendReply(
+      job,
+      this.campaignsService.formatMessage(campaign.messages.moderationPending, {
+        nickname: job.nickname,
+      }),
+    );
+
+    for (const adminId of this.moderationService.adminIds) {
+      try {
+        await this.#sendMessage(
+          adminId,
+          `Ник ждет проверки. ${this.#describeEntry(entry)}\n/approve ${entry.id}, /reject ${entry.id} или /edit ${entry.id} <ник>`,
+        );
+      } catch (error) {
+        // Заявка уже сохранена, ее можно рассмотреть через /pending или HTTP API
+        console.error(`Не удалось уведомить администратора ${adminId}:`, error);
       }
+    }
+  };
 
-      const uploadResult = await uploadResponse.json();
+  #handleModerationDecision = async (
+    entry: ModerationEntry,
+    decision: ModerationDecision,
+  ): Promise<void> => {
+    const { job } = entry;
+
+    if (decision.action === 'reject') {
+      const campaign = this.campaignsService.getById(job.campaignId);
+      await this.#sendReply(
+        job,
+        this.campaignsService.formatMessage(
+          campaign?.messages.moderationRejected ??
+            'Модератор не одобрил «{nickname}»',
+          { nickname: job.nickname },
+        ),
+      );
+      return;
+    }
+
+    // Исправленный ник проходит обычные проверки, но на модерацию уже не попадает
+    await this.#enqueue(`moderated_${entry.id}`, {
+      ...job,
+      nickname: decision.nickname ?? job.nickname,
+      moderated: true,
+    });
+  };
+
+  #replyStatus = async (event: IncomingMessage): Promise<void> => {
+    // Запросы из комментариев тоже учитываем: это тот же пользователь
+    const active = await this.queueService.find<BundleJob>(
+      (job) =>
+        job.payload.fromId === event.fromId &&
+        (job.status === 'pending' || job.status === 'processing'),
+    );
 
-      if (!uploadResult.photo || !uploadResult.server || !uploadResult.hash) {
-        throw new Error('Invalid upload result format');
+    if (active.length) {
+      const lines: string[] = [];
+      for (const job of active) {
+        const position = await this.queueService.getPosition(job.id);
+        lines.push(
+          position
+            ? `Ник ${job.payload.nickname}: в очереди, место ${position}`
+            : `Ник ${job.payload.nickname}: уже рисуем`,
+        );
       }
+      await this.#sendMessage(event.fromId, lines.join('\n'));
+      return;
+    }
+
+    const last = await this.requestRegistryService.findLastIssued(event.fromId);
+    await this.#sendMessage(
+      event.fromId,
+      last
+        ? `Активных запросов нет. Последний бандл для ника ${last.nickname}: ${last.resultUrl}`
+        : 'Активных запросов нет. Чтобы получить бандл, напишите /bundle и ваш ник.',
+    );
+  };
+
+  #resendLast = async (event: IncomingMessage): Promise<void> => {
+    const last = await this.requestRegistryService.findLastIssued(event.fromId);
+    const campaign = last?.campaignId
+      ? this.campaignsService.getById(last.campaignId)
+      : undefined;
+
+    if (!last || !campaign) {
+      await this.#sendMessage(
+        event.fromId,
+        'Не нашли бандлов, которые вы уже получали. Чтобы собрать новый, напишите /bundle и ваш ник.',
+      );
+      return;
+    }
+
+    await this.#enqueue(`again_${event.fromId}_${event.messageId}`, {
+      campaignId: campaign.id,
+      ownerId: campaign.ownerId ?? -this.#groupId(),
+      postId: campaign.postId,
+      messageId: event.messageId,
+      fromId: event.fromId,
+      nickname: last.nickname,
+      kind: 'resend',
+    });
+  };
+
+  #groupId = (): number => {
+    return Math.abs(Number(this.#configService.get<string>('GROUP_ID')));
+  };
+
+  // Короткий ответ туда, откуда пришел запрос: в ветку комментария или в личку
+  #sendReply = async (job: BundleJob, message: string): Promise<void> => {
+    if (job.commentId) {
+      const { comment_id: replyId } = await this.vkGateway.createComment({
+        owner_id: job.ownerId,
+        post_id: job.postId,
+        reply_to_comment: job.commentId,
+        message: message,
+      });
+      await this.#trackReply(job, replyId);
+    } else {
+      await this.#sendMessage(job.fromId, message);
+    }
+  };
+
+  // Все ответы в личных сообщениях приходят с кнопками команд
+  #sendMessage = async (
+    peerId: number,
+    message: string,
+    attachment?: string,
+  ): Promise<void> => {
+    await this.vkGateway.sendMessage({
+      peer_id: peerId,
+      message,
+      attachment,
+      keyboard: COMMANDS_KEYBOARD,
+    });
+  };
+
+  #requestId = (job: BundleJob): string => {
+    return job.commentId
+      ? `${job.ownerId}_${job.commentId}`
+      : `message_${job.fromId}_${job.messageId}`;
+  };
+
+  #describeRejection = (
+    check: Exclude<RequestCheck, { allowed: true }>,
+  ): string => {
+    switch (check.reason) {
+      case 'duplicate':
+        return `Вы уже получали бандл для ника ${check.previous.nickname}, он здесь: ${check.previous.resultUrl}`;
+      case 'post-limit':
+        return `Спасибо за интерес! По этому посту можно получить не больше ${check.limit} бандл(ов) на человека.`;
+      case 'daily-limit':
+        return `Спасибо за интерес! За сутки можно получить не больше ${check.limit} бандл(ов), попробуйте завтра.`;
+    }
+  };
+
+  #describeInvalidNickname = (
+    check: Exclude<NicknameCheck, { valid: true }>,
+    rules: NicknameRules,
+  ): string => {
+    switch (check.reason) {
+      case 'too-short':
+        return `длина ника должна быть не меньше ${check.limit}`;
+      case 'too-long':
+        return `длина ника должна быть не больше ${check.limit}`;
+      case 'alphabet':
+        return `символы ${check.characters.join(' ')} не разрешены, можно использовать ${rules.alphabets
+          .map((alphabet) => ALPHABET_NAMES[alphabet])
+          .join(', ')}`;
+      case 'banned-word':
+        // Само слово не повторяем: ответ виден всем под постом
+        return 'в нике есть запрещенное слово';
+    }
+  };
+
+  #enqueueComment = async (
+    event: IncomingComment,
+    campaign: Campaign,
+    nickname: string,
+  ): Promise<void> => {
+    await this.commentRepliesService.track(event, nickname);
+    await this.#enqueue(`comment_${event.ownerId}_${event.commentId}`, {
+      campaignId: campaign.id,
+      ownerId: event.ownerId,
+      postId: event.postId,
+      commentId: event.commentId,
+      fromId: event.fromId,
+      nickname,
+      photoUrl: event.photoUrl,
+    });
+  };
+
+  #enqueue = async (id: string, job: BundleJob): Promise<boolean> => {
+    // id задачи привязан к комментарию или сообщению, поэтому повторная доставка события не создаст дубль.
+    // Новая задача из сохраненного запроса начинает доставку с начала
+    const added = await this.queueService.enqueue(id, {
+      ...job,
+      delivered: undefined,
+    });
+    console.log(
+      added
+        ? `Запрос ${id} поставлен в очередь`
+        : `Запрос ${id} уже в очереди или обработан`,
+    );
+    return added;
+  };
 
-      await this.delay(); // Добавляем задержку перед сохранением фото
-      const [savedPhoto] = await this.#vkUser.api.photos.saveWallPhoto({
-        group_id: groupId,
+  private async uploadMessagesPhoto(photo: Buffer, peerId: number) {
+    const stopTimer = this.metricsService.startTimer(
+      'bot_upload_duration_seconds',
+      { type: 'photo' },
+    );
+    try {
+      const uploadServer = await this.vkGateway.getMessagesPhotoUploadServer({
+        peer_id: peerId,
+      });
+      const uploadResult = await this.#postPhoto(uploadServer, photo);
+
+      const [savedPhoto] = await this.vkGateway.saveMessagesPhoto({
         photo: uploadResult.photo,
         server: uploadResult.server,
         hash: uploadResult.hash,
@@ -202,46 +911,73 @@ export class VkService implements OnModuleInit {
 
       return savedPhoto;
     } catch (error) {
-      console.error('Ошибка при загрузке фото:', error.message);
+      console.error('Ошибка при загрузке фото для сообщения:', error.message);
       throw error;
+    } finally {
+      stopTimer();
     }
   }
 
-  private async createZipArchive(
-    bundle: Bundle,
-    nickname: string,
-  ): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      const archive = archiver('zip', {
-        zlib: { level: 9 },
-      });
+  #postPhoto = async (
+    uploadServer: UploadServer,
+    photo: Buffer,
+  ): Promise<PhotoUploadResult> => {
+    if (!uploadServer || !uploadServer.upload_url) {
+      throw new Error('Failed to get upload server URL');
+    }
 
-      const chunks: Buffer[] = [];
+    const form =
+      `--boundary\r\n` +
+      `Content-Disposition: form-data; name="photo"; filename="photo.png"\r\n` +
+      `Content-Type: image/png\r\n\r\n`;
 
-      archive.on('data', (chunk) => chunks.push(chunk));
-      archive.on('end', () => resolve(Buffer.concat(chunks)));
-      archive.on('error', (err) => reject(new Error(err.message)));
+    const endForm = '\r\n--boundary--\r\n';
 
-      // Добавляем файлы в архив
-      archive.append(bundle.avatar, { name: `${nickname}_avatar.png` });
-      archive.append(bundle.coverVk, { name: `${nickname}_cover_vk.png` });
-      archive.append(bundle.coverX, { name: `${nickname}_cover_x.png` });
+    const formBuffer = Buffer.concat([
+      Buffer.from(form, 'utf-8'),
+      photo,
+      Buffer.from(endForm, 'utf-8'),
+    ]);
 
-      archive.finalize();
+    const uploadResponse = await fetch(uploadServer.upload_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'multipart/form-data; boundary=boundary',
+      },
+      body: formBuffer,
     });
-  }
+
+    if (!uploadResponse.ok) {
+      throw new Error(`Upload failed with status: ${uploadResponse.status}`);
+    }
+
+    const uploadResult = (await uploadResponse.json()) as PhotoUploadResult;
+
+    if (!uploadResult.photo || !uploadResult.server || !uploadResult.hash) {
+      throw new Error('Invalid upload result format');
+    }
+
+    return uploadResult;
+  };
 
   private async uploadDocument(
     file: Buffer,
     fileName: string,
-    groupId: number,
+    peerId: number,
+    actor: VkActor = 'user',
   ) {
+    const stopTimer = this.metricsService.startTimer(
+      'bot_upload_duration_seconds',
+      { type: 'doc' },
+    );
     try {
-      await this.delay(); // Добавляем задержку перед запросом
-      const uploadServer = await this.#vkUser.api.docs.getMessagesUploadServer({
-        type: 'doc',
-        peer_id: groupId,
-      });
+      const uploadServer = await this.vkGateway.getMessagesUploadServer(
+        {
+          type: 'doc',
+          peer_id: peerId,
+        },
+        actor,
+      );
 
       if (!uploadServer || !uploadServer.upload_url) {
         throw new Error('Failed to get upload server URL');
@@ -266,105 +1002,702 @@ export class VkService implements OnModuleInit {
 
       const uploadResult = await uploadResponse.json();
 
-      await this.delay(); // Добавляем задержку перед сохранением документа
-      const savedDoc = await this.#vkUser.api.docs.save({
-        file: uploadResult.file,
-        title: fileName,
-      });
+      const savedDoc = await this.vkGateway.saveDocument(
+        {
+          file: uploadResult.file,
+          title: fileName,
+        },
+        actor,
+      );
 
       return savedDoc;
     } catch (error) {
       console.error('Ошибка при загрузке документа:', error.message);
       throw error;
+    } finally {
+      stopTimer();
     }
   }
 
-  #handleComment = async (
-    context: CommentContext<ContextDefaultState>,
-    nickname: string,
+  #handleJob = async (
+    job: BundleJob,
+    queued: Job<BundleJob>,
   ): Promise<void> => {
+    const startedAt = Date.now();
+    let outcome: RunOutcome;
     try {
-      const bundle: Bundle =
-        await this.imageProcessingService.createBundle(nickname);
-      const groupId = Number(this.#configService.get<string>('GROUP_ID'));
-
-      // Загружаем изображения как фото для превью
-      const avatarUpload = await this.uploadPhoto(
-        bundle.avatar,
-        Math.abs(groupId),
-      );
-      await this.delay(); // Добавляем задержку между загрузками фото
-      const coverVkUpload = await this.uploadPhoto(
-        bundle.coverVk,
-        Math.abs(groupId),
-      );
-      await this.delay(); // Добавляем задержку между загрузками фото
-      const coverXUpload = await this.uploadPhoto(
-        bundle.coverX,
-        Math.abs(groupId),
-      );
-
-      // Загружаем все изображения как документы
-      const coverVkDoc = await this.uploadDocument(
-        bundle.coverVk,
-        `${nickname}_cover_vk.png`,
-        groupId,
-      );
-      await this.delay(); // Добавляем задержку между загрузками документов
-      const coverXDoc = await this.uploadDocument(
-        bundle.coverX,
-        `${nickname}_cover_x.png`,
-        groupId,
-      );
-      await this.delay(); // Добавляем задержку между загрузками документов
-      const avatarDoc = await this.uploadDocument(
-        bundle.avatar,
-        `${nickname}_avatar.png`,
-        groupId,
-      );
-
-      // Отправляем первое сообщение с обложками
-      const coverAttachments = [
-        `doc${coverVkDoc.doc.owner_id}_${coverVkDoc.doc.id}`,
-        `doc${coverXDoc.doc.owner_id}_${coverXDoc.doc.id}`,
-      ].join(',');
-
-      await this.delay(); // Добавляем задержку перед отправкой комментария
-      await this.#vkUser.api.wall.createComment({
-        owner_id: context.ownerId,
-        post_id: context.objectId,
-        reply_to_comment: context.id,
-        from_group: Math.abs(groupId),
-        message: `Ваш бандл готов! Обложки для ${nickname}:`,
-        attachments: coverAttachments,
+      outcome = await this.#runJob(job);
+    } catch (error) {
+      await this.#recordRun(job, queued, startedAt, {
+        status: 'failed',
+        error: error.message,
       });
+      throw error;
+    }
+    await this.#recordRun(job, queued, startedAt, outcome);
+  };
 
-      // Создаем архив
-      const zipBuffer = await this.createZipArchive(bundle, nickname);
-      const zipDoc = await this.uploadDocument(
-        zipBuffer,
-        `bundle_${nickname}.zip`,
-        groupId,
-      );
-
-      // Отправляем второе сообщение с аватаром и архивом
-      const finalAttachments = [
-        `doc${avatarDoc.doc.owner_id}_${avatarDoc.doc.id}`,
-        `doc${zipDoc.doc.owner_id}_${zipDoc.doc.id}`,
-      ].join(',');
-
-      await this.delay(); // Добавляем задержку перед отправкой второго комментария
-      await this.#vkUser.api.wall.createComment({
-        owner_id: context.ownerId,
-        post_id: context.objectId,
-        reply_to_comment: context.id,
-        from_group: Math.abs(groupId),
-        message: 'Аватар и архив со всеми файлами:',
-        attachments: finalAttachments,
+  // История не должна влиять на доставку: ошибка записи только логируется
+  #recordRun = async (
+    job: BundleJob,
+    queued: Job<BundleJob>,
+    startedAt: number,
+    outcome: RunOutcome,
+  ): Promise<void> => {
+    try {
+      await this.historyService.add({
+        requestId: this.#requestId(job),
+        jobId: queued.id,
+        campaignId: job.campaignId,
+        ownerId: job.ownerId,
+        postId: job.postId,
+        commentId: job.commentId,
+        messageId: job.messageId,
+        userId: job.fromId,
+        nickname: job.nickname,
+        kind: job.kind ?? 'bundle',
+        photoUrl: job.photoUrl,
+        startedAt,
+        finishedAt: Date.now(),
+        ...outcome,
       });
     } catch (error) {
-      console.error('Ошибка при обработке комментария:', error.message);
-      await this.#sendReply(context, 'Произошла ошибка при создании бандла');
+      console.error('Не удалось записать историю запроса:', error);
+    }
+  };
+
+  #runJob = async (job: BundleJob): Promise<RunOutcome> => {
+    const campaign = this.campaignsService.getById(job.campaignId);
+
+    if (!campaign) {
+      // Акцию убрали из конфига, пока запрос ждал в очереди
+      console.warn(
+        `Акция ${job.campaignId} не найдена, запрос ${this.#requestId(job)} пропущен`,
+      );
+      return { status: 'skipped', reason: 'campaign-missing' };
+    }
+
+    if (!(await this.#prepareCommentReply(job))) {
+      return { status: 'skipped', reason: 'outdated' };
     }
+
+    const check = this.nicknameService.validate(
+      job.nickname,
+      campaign.nickname,
+    );
+    if (!check.valid) {
+      console.log(`Ник ${job.nickname} не прошел проверку: ${check.reason}`);
+      await this.#sendReply(
+        job,
+        this.campaignsService.formatMessage(campaign.messages.invalidNickname, {
+          nickname: job.nickname,
+          reason: this.#describeInvalidNickname(check, campaign.nickname),
+        }),
+      );
+      return this.#reject('invalid');
+    }
+
+    // Отправленные ответы отмечаются в самой задаче очереди, копия ниже ссылается на тот же объект
+    job.delivered ??= {};
+    // Дальше работаем с ником в регистре, который требует акция
+    return this.#processRequest({ ...job, nickname: check.nickname }, campaign);
+  };
+
+  /**
+   * Проверяет, что комментарий еще актуален, и для исправленного ника или
+   * перерисованного бандла убирает прошлые ответы. false - запрос больше не нужен.
+   */
+  #prepareCommentReply = async (job: BundleJob): Promise<boolean> => {
+    const { ownerId, commentId } = job;
+    if (!commentId) {
+      return true;
+    }
+
+    const record = await this.commentRepliesService.get(ownerId, commentId);
+    if (record?.deleted || (job.revision ?? 0) < (record?.revision ?? 0)) {
+      console.log(
+        `Комментарий ${this.#requestId(job)} удален или исправлен, запрос пропущен`,
+      );
+      return false;
+    }
+
+    if (job.replaceReplies) {
+      const removed = await this.commentRepliesService.takeReplies(
+        ownerId,
+        commentId,
+      );
+      if (removed) {
+        await this.#removeReplies(ownerId, removed);
+      }
+      // При повторе задачи прошлые ответы уже убраны, а новые удалять нельзя
+      job.replaceReplies = false;
+      await this.queueService.saveProgress();
+    }
+    return true;
+  };
+
+  #processRequest = async (
+    job: BundleJob,
+    campaign: Campaign,
+  ): Promise<RunOutcome> => {
+    const { nickname } = job;
+    const requestId = this.#requestId(job);
+
+    const unsupported =
+      await this.imageProcessingService.findUnsupportedCharacters(
+        nickname,
+        campaign,
+      );
+    if (unsupported.length) {
+      console.log(`Ник ${nickname} содержит неподдерживаемые символы`);
+      await this.#sendReply(
+        job,
+        this.campaignsService.formatMessage(
+          campaign.messages.unsupportedCharacters,
+          { characters: unsupported.join(' ') },
+        ),
+      );
+      return this.#reject('unsupported');
+    }
+
+    if (job.kind === 'preview') {
+      return this.#sendPreview(job, campaign);
+    }
+
+    // Условия розыгрыша проверяем раньше модерации и лимитов: невыполненные не тратят ни то, ни другое
+    if (job.kind !== 'resend' && !job.moderated) {
+      const missing = await this.eligibilityService.findMissing(
+        campaign,
+        job.fromId,
+      );
+      if (missing.length) {
+        console.log(
+          `Пользователь ${job.fromId} не выполнил условия: ${missing.join(', ')}`,
+        );
+        await this.eligibilityService.wait(job);
+        await this.#sendReply(
+          job,
+          this.campaignsService.formatMessage(campaign.messages.notEligible, {
+            nickname,
+            missing: missing
+              .map((requirement) => ELIGIBILITY_NAMES[requirement])
+              .join(', '),
+          }),
+        );
+        return this.#reject('not-eligible');
+      }
+      await this.eligibilityService.forget(job);
+    }
+
+    // Бандл публикуется от имени сообщества, поэтому сомнительные ники сначала смотрит человек
+    if (job.kind !== 'resend' && !job.moderated) {
+      const reasons = this.moderationService.check(
+        nickname,
+        campaign.moderation,
+      );
+      if (reasons.length) {
+        this.#countRejected('moderation');
+        await this.#holdForModeration(job, campaign, reasons);
+        return { status: 'held', reason: 'moderation' };
+      }
+    }
+
+    // Повторная отправка уже выданного бандла лимиты не расходует
+    const limited = job.kind !== 'resend';
+
+    // Проверяем лимиты до рендера, чтобы не тратить квоту загрузок на спам
+    const check = limited
+      ? await this.requestRegistryService.reserve({
+          id: requestId,
+          userId: job.fromId,
+          nickname,
+          postKey: `${job.ownerId}_${job.postId}`,
+          campaignId: job.campaignId,
+        })
+      : { allowed: true as const };
+    if (!check.allowed) {
+      console.log(`Запрос ${requestId} отклонен: ${check.reason}`);
+      await this.#sendReply(job, this.#describeRejection(check));
+      return this.#reject(check.reason);
+    }
+
+    const rendered = await this.#render(
+      nickname,
+      campaign,
+      job.photoUrl,
+      !job.fresh,
+    );
+    const delivery = await this.#deliver(job, campaign, rendered);
+    if (limited) {
+      await this.requestRegistryService.complete(requestId, delivery.url);
+    }
+    return {
+      status: 'issued',
+      resultUrl: delivery.url,
+      attachments: delivery.attachments,
+    };
+  };
+
+  #countRejected = (reason: string) => {
+    this.metricsService.increment('bot_nicknames_rejected_total', { reason });
+  };
+
+  #reject = (reason: string): RunOutcome => {
+    this.#countRejected(reason);
+    return { status: 'rejected', reason };
+  };
+
+  // Популярные ники не рисуем и не загружаем заново, а берем из кэша
+  #render = async (
+    nickname: string,
+    campaign: Campaign,
+    photoUrl?: string,
+    useCache = true,
+  ): Promise<RenderedBundle> => {
+    const layouts = await this.imageProcessingService.getLayouts(campaign);
+
+    // Бандл с фото у каждого свой, поэтому его не берем из кэша и не кладем туда
+    const photo = await this.#loadPhoto(photoUrl, layouts);
+    if (photo) {
+      this.metricsService.increment('bot_bundles_total', { source: 'photo' });
+      const images = this.#timeRenders(
+        await this.imageProcessingService.startBundle(
+          nickname,
+          campaign,
+          photo,
+        ),
+      );
+      const archive = background(
+        this.#createArchive(nickname, campaign, this.#collectImages(images)),
+      );
+      return { images, layouts, archive, attachments: {} };
+    }
+
+    const version =
+      await this.imageProcessingService.getTemplateVersion(campaign);
+
+    const cached =
+      useCache &&
+      (await this.uploadCacheService.get(campaign.id, version, nickname));
+    if (cached) {
+      console.log(`Бандл для ника ${nickname} взят из кэша`);
+      this.metricsService.increment('bot_bundles_total', { source: 'cache' });
+      const images: PendingBundle = {};
+      for (const [name, image] of Object.entries(cached.images)) {
+        images[name] = Promise.resolve(image);
+      }
+      return {
+        images,
+        layouts,
+        archive: Promise.resolve(cached.archive),
+        cacheKey: Promise.resolve(cached.key),
+        attachments: cached.attachments,
+      };
+    }
+
+    this.metricsService.increment('bot_bundles_total', { source: 'render' });
+    const images = this.#timeRenders(
+      await this.imageProcessingService.startBundle(nickname, campaign),
+    );
+    const bundle = background(this.#collectImages(images));
+    const archive = background(this.#createArchive(nickname, campaign, bundle));
+    const cacheKey = background(
+      Promise.all([bundle, archive]).then(([ready, zip]) =>
+        this.uploadCacheService.put(campaign.id, version, nickname, ready, zip),
+      ),
+    );
+    return { images, layouts, archive, cacheKey, attachments: {} };
+  };
+
+  // Шаблоны рисуются параллельно, поэтому время каждого считается от общего старта
+  #timeRenders = (images: PendingBundle): PendingBundle => {
+    for (const [layout, image] of Object.entries(images)) {
+      const stopTimer = this.metricsService.startTimer(
+        'bot_render_duration_seconds',
+        { layout },
+      );
+      image.then(stopTimer, () => undefined);
+    }
+    return images;
+  };
+
+  #createArchive = async (
+    nickname: string,
+    campaign: Campaign,
+    bundle: Promise<Bundle>,
+  ): Promise<Buffer> => {
+    const files = await this.imageProcessingService.createOutputs(
+      nickname,
+      await bundle,
+      campaign,
+    );
+    return this.archiveService.createZipArchive(files, nickname);
+  };
+
+  /**
+   * Скачивает фото пользователя, если в шаблонах акции есть место под него.
+   * Если фото не получить, бандл рисуется без него, как раньше.
+   */
+  #loadPhoto = async (
+    photoUrl: string | undefined,
+    layouts: TemplateLayout[],
+  ): Promise<DecodedImage | undefined> => {
+    if (!photoUrl || !layouts.some((layout) => layout.photo)) {
+      return undefined;
+    }
+
+    try {
+      const response = await fetch(photoUrl, {
+        size: PHOTO_MAX_BYTES,
+        timeout: PHOTO_TIMEOUT_MS,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      return await this.imageProcessingService.decodePhoto(
+        await response.buffer(),
+      );
+    } catch (error) {
+      console.warn(
+        `Не удалось загрузить фото ${photoUrl}, рисуем без него:`,
+        error.message,
+      );
+      return undefined;
+    }
+  };
+
+  #collectImages = async (images: PendingBundle): Promise<Bundle> => {
+    const bundle: Bundle = {};
+    for (const [name, image] of Object.entries(images)) {
+      bundle[name] = await image;
+    }
+    return bundle;
+  };
+
+  #sendPreview = async (
+    job: BundleJob,
+    campaign: Campaign,
+  ): Promise<RunOutcome> => {
+    const layouts = await this.imageProcessingService.getLayouts(campaign);
+    // Для примера хватит аватара: он показывает ник целиком и весит меньше обложек
+    const layout =
+      layouts.find((item) => item.name === 'avatar') ??
+      layouts.find((item) => item.reply === 'second') ??
+      layouts[0];
+
+    const image = await this.imageProcessingService.renderLayout(
+      job.nickname,
+      layout,
+      campaign,
+      await this.#loadPhoto(job.photoUrl, [layout]),
+    );
+    const photo = await this.uploadMessagesPhoto(image, job.fromId);
+    const attachment = `photo${photo.owner_id}_${photo.id}`;
+
+    await this.#sendMessage(
+      job.fromId,
+      `Так будет выглядеть аватар для ника ${job.nickname}. Весь бандл: /bundle ${job.nickname}`,
+      attachment,
+    );
+    return {
+      status: 'issued',
+      resultUrl: `https://vk.com/im?sel=-${this.#groupId()}`,
+      attachments: [attachment],
+    };
+  };
+
+  /**
+   * Отправляет бандл согласно настройке акции и возвращает ссылку на результат.
+   */
+  #deliver = async (
+    job: BundleJob,
+    campaign: Campaign,
+    rendered: RenderedBundle,
+  ): Promise<Delivery> => {
+    // Запрос из личных сообщений получает ответ там же
+    const delivery = job.commentId ? campaign.delivery : 'message';
+
+    let toMessages: Delivery | undefined;
+    if (delivery !== 'comment') {
+      try {
+        toMessages = await this.#deliverToMessages(job, campaign, rendered);
+      } catch (error) {
+        // Пользователь не разрешил сообщения от сообщества - остаются комментарии
+        if (!job.commentId || !isMessagesForbidden(error)) {
+          throw error;
+        }
+        console.log(
+          `Пользователь ${job.fromId} не принимает сообщения от сообщества, отвечаем в комментариях`,
+        );
+      }
+
+      if (toMessages && delivery === 'message') {
+        if (job.commentId) {
+          await this.#deliverOnce(job, 'notice', async () => {
+            await this.#sendReply(
+              job,
+              this.campaignsService.formatMessage(
+                campaign.messages.sentToMessages,
+                { nickname: job.nickname },
+              ),
+            );
+            return { attachments: [] };
+          });
+        }
+        return toMessages;
+      }
+    }
+
+    const toComments = await this.#deliverToComments(job, campaign, rendered);
+    return {
+      url: toComments.url,
+      attachments: [
+        ...(toMessages?.attachments ?? []),
+        ...toComments.attachments,
+      ],
+    };
+  };
+
+  #deliverToMessages = async (
+    job: BundleJob,
+    campaign: Campaign,
+    rendered: RenderedBundle,
+  ): Promise<Delivery> => {
+    const { attachments } = await this.#deliverOnce(
+      job,
+      'messages',
+      async () => {
+        const cached = rendered.attachments.message;
+        const uploads = cached
+          ? this.#fromCache(cached)
+          : this.#uploadForMessages(job, campaign, rendered);
+        const { docs, archive } = await this.#collectAttachments(uploads);
+        const sent = [
+          ...rendered.layouts.map((layout) => docs[layout.name]),
+          archive,
+        ];
+
+        await this.#sendMessage(
+          job.fromId,
+          this.campaignsService.formatMessage(campaign.messages.bundleReady, {
+            nickname: job.nickname,
+          }),
+          sent.join(','),
+        );
+
+        if (!cached && rendered.cacheKey) {
+          await this.uploadCacheService.setAttachments(
+            await rendered.cacheKey,
+            'message',
+            { docs, archive },
+          );
+        }
+        return { attachments: sent };
+      },
+    );
+    return { url: `https://vk.com/im?sel=-${this.#groupId()}`, attachments };
+  };
+
+  #uploadForMessages = (
+    job: BundleJob,
+    campaign: Campaign,
+    { images, layouts, archive }: RenderedBundle,
+  ): PendingAttachments => {
+    const { nickname } = job;
+    const docs: Record<string, Promise<string>> = {};
+
+    // Файлы для личных сообщений загружает само сообщество в диалог с пользователем
+    for (const layout of layouts) {
+      docs[layout.name] = background(
+        images[layout.name]
+          .then((image) =>
+            this.uploadDocument(
+              image,
+              `${nickname}_${layout.name}.png`,
+              job.fromId,
+              'group',
+            ),
+          )
+          .then(this.#docAttachment),
+      );
+    }
+
+    return {
+      docs,
+      archive: background(
+        archive
+          .then((zip) =>
+            this.uploadDocument(
+              zip,
+              this.campaignsService.formatMessage(campaign.archiveName, {
+                nickname,
+              }),
+              job.fromId,
+              'group',
+            ),
+          )
+          .then(this.#docAttachment),
+      ),
+    };
+  };
+
+  #deliverToComments = async (
+    job: BundleJob,
+    campaign: Campaign,
+    rendered: RenderedBundle,
+  ): Promise<Delivery> => {
+    const { nickname } = job;
+    const groupId = Math.abs(
+      Number(this.#configService.get<string>('GROUP_ID')),
+    );
+    const cached = rendered.attachments.comment;
+    const uploads = cached
+      ? this.#fromCache(cached)
+      : this.#uploadForComments(job, campaign, rendered);
+
+    // Каждый ответ ждет только свои файлы, остальные тем временем догружаются
+    const attachmentsFor = (reply: TemplateLayout['reply']) =>
+      Promise.all(
+        rendered.layouts
+          .filter((layout) => layout.reply === reply)
+          .map((layout) => uploads.docs[layout.name]),
+      );
+
+    const reply = async (message: string, attachments: string[]) => {
+      const { comment_id: replyId } = await this.vkGateway.createComment({
+        owner_id: job.ownerId,
+        post_id: job.postId,
+        reply_to_comment: job.commentId,
+        from_group: groupId,
+        message: this.campaignsService.formatMessage(message, { nickname }),
+        attachments: attachments.join(','),
+      });
+      await this.#trackReply(job, replyId, attachments.join(','));
+      return { replyId, attachments };
+    };
+
+    // Отправляем первое сообщение с обложками
+    const covers = await this.#deliverOnce(job, 'covers', async () =>
+      reply(campaign.messages.coversReady, await attachmentsFor('first')),
+    );
+
+    // Отправляем второе сообщение с аватаром и архивом
+    const avatar = await this.#deliverOnce(job, 'avatar', async () =>
+      reply(campaign.messages.avatarReady, [
+        ...(await attachmentsFor('second')),
+        await uploads.archive,
+      ]),
+    );
+
+    if (!cached && rendered.cacheKey) {
+      await this.uploadCacheService.setAttachments(
+        await rendered.cacheKey,
+        'comment',
+        await this.#collectAttachments(uploads),
+      );
+    }
+    return {
+      url: `https://vk.com/wall${job.ownerId}_${job.postId}?reply=${covers.replyId}&thread=${job.commentId}`,
+      attachments: [...covers.attachments, ...avatar.attachments].filter(
+        Boolean,
+      ),
+    };
+  };
+
+  // Ответ, уже отправленный прошлой попыткой задачи, второй раз не уходит
+  #deliverOnce = async (
+    job: BundleJob,
+    step: DeliveryStep,
+    send: () => Promise<DeliveredStep>,
+  ): Promise<DeliveredStep> => {
+    const done = job.delivered?.[step];
+    if (done) {
+      console.log(
+        `Ответ ${step} на запрос ${this.#requestId(job)} уже отправлен`,
+      );
+      return done;
+    }
+
+    const sent = await send();
+    if (job.delivered) {
+      job.delivered[step] = sent;
+      await this.queueService.saveProgress();
+    }
+    return sent;
+  };
+
+  #uploadForComments = (
+    job: BundleJob,
+    campaign: Campaign,
+    { images, layouts, archive }: RenderedBundle,
+  ): PendingAttachments => {
+    const { nickname } = job;
+    const groupId = Number(this.#configService.get<string>('GROUP_ID'));
+    const docs: Record<string, Promise<string>> = {};
+
+    // Каждую картинку загружаем документом, как только она нарисована
+    for (const layout of layouts) {
+      docs[layout.name] = background(
+        images[layout.name].then(async (image) => {
+          return this.#docAttachment(
+            await this.uploadDocument(
+              image,
+              `${nickname}_${layout.name}.png`,
+              groupId,
+            ),
+          );
+        }),
+      );
+    }
+
+    return {
+      docs,
+      archive: background(
+        archive
+          .then((zip) =>
+            this.uploadDocument(
+              zip,
+              this.campaignsService.formatMessage(campaign.archiveName, {
+                nickname,
+              }),
+              groupId,
+            ),
+          )
+          .then(this.#docAttachment),
+      ),
+    };
+  };
+
+  #fromCache = (attachments: CachedAttachments): PendingAttachments => {
+    const docs: Record<string, Promise<string>> = {};
+    for (const [name, doc] of Object.entries(attachments.docs)) {
+      docs[name] = Promise.resolve(doc);
+    }
+    return { docs, archive: Promise.resolve(attachments.archive) };
+  };
+
+  #collectAttachments = async (
+    uploads: PendingAttachments,
+  ): Promise<CachedAttachments> => {
+    const docs: Record<string, string> = {};
+    for (const [name, doc] of Object.entries(uploads.docs)) {
+      docs[name] = await doc;
+    }
+    return { docs, archive: await uploads.archive };
+  };
+
+  #docAttachment = ({ doc }: SavedDocument): string => {
+    return `doc${doc.owner_id}_${doc.id}`;
+  };
+
+  #handleFailedJob = async (job: BundleJob, error: Error): Promise<void> => {
+    console.error('Ошибка при обработке запроса:', error.message);
+    await this.requestRegistryService.release(this.#requestId(job));
+    const campaign = this.campaignsService.getById(job.campaignId);
+    await this.#sendReply(
+      job,
+      campaign?.messages.error ?? 'Произошла ошибка при создании бандла',
+    );
   };
 }
@@ -2,24 +2,163 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
 import * as request from 'supertest';
 import { App } from 'supertest/types';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { AppModule } from './../src/app.module';
+import { VkGateway } from './../src/vk/vk-gateway';
+import { FakeVkGateway } from './../src/vk/fake-vk.gateway';
+import { IncomingComment } from './../src/types/incoming-comment.type';
+
+// vk-io подгружает node-fetch через динамический import, который jest не поддерживает
+jest.mock('vk-io', () => ({ VK: jest.fn() }));
+
+jest.setTimeout(60000);
 
 describe('AppController (e2e)', () => {
   let app: INestApplication<App>;
+  let gateway: FakeVkGateway;
+  let tmpDir: string;
+
+  const comment = (
+    commentId: number,
+    fromId: number,
+    text: string,
+  ): IncomingComment => ({ ownerId: -1, postId: 10, commentId, fromId, text });
+
+  // Задачи очереди выполняются в фоне, поэтому ждем нужное число ответов
+  const waitForReplies = async (count: number) => {
+    const deadline = Date.now() + 30000;
+    while (gateway.comments.length < count) {
+      if (Date.now() > deadline) {
+        throw new Error(`Ожидалось ответов: ${count}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    return gateway.comments.map((reply) => ({
+      replyTo: reply.replyTo,
+      fromGroup: reply.fromGroup,
+      message: reply.message,
+      files: reply.attachments.map(
+        (attachment) => gateway.files.get(attachment)?.fileName,
+      ),
+    }));
+  };
 
   beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'e2e-'));
+    process.env.DATA_DIR = tmpDir;
+    process.env.CAMPAIGNS_PATH = path.join(tmpDir, 'campaigns.json');
+    process.env.TARGET_POST_ID = '10';
+    process.env.GROUP_ID = '-1';
+    process.env.VK_TRANSPORT = 'callback';
+
+    gateway = new FakeVkGateway();
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
-    }).compile();
+    })
+      .overrideProvider(VkGateway)
+      .useValue(gateway)
+      .compile();
 
     app = moduleFixture.createNestApplication();
     await app.init();
   });
 
+  afterEach(async () => {
+    await app.close();
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
   it('/ (GET)', () => {
     return request(app.getHttpServer())
       .get('/')
       .expect(200)
       .expect('Hello World!');
   });
+
+  it('should answer a wall_reply_new with covers, avatar and archive', async () => {
+    await gateway.emitComment(comment(5, 7, 'Ник: Neo'));
+
+    expect(await waitForReplies(2)).toEqual([
+      {
+        replyTo: 5,
+        fromGroup: 1,
+        message: 'Ваш бандл готов! Обложки для Neo:',
+        files: ['Neo_cover_vk.png', 'Neo_cover_x.png'],
+      },
+      {
+        replyTo: 5,
+        fromGroup: 1,
+        message: 'Аватар и архив со всеми файлами:',
+        files: ['Neo_avatar.png', 'bundle_Neo.zip'],
+      },
+    ]);
+
+    const [cover] = gateway.comments[0].attachments;
+    expect(gateway.files.get(cover)?.data.subarray(1, 4).toString()).toBe(
+      'PNG',
+    );
+    // Картинки уходят только документами, без лишних фото на стене
+    expect(
+      gateway.calls.filter((call) => call.method.startsWith('photos.')),
+    ).toEqual([]);
+  });
+
+  it('should answer comments delivered through the Callback API', async () => {
+    await request(app.getHttpServer())
+      .post('/vk/callback')
+      .send({
+        type: 'wall_reply_new',
+        group_id: 1,
+        object: {
+          id: 5,
+          from_id: 7,
+          post_id: 10,
+          post_owner_id: -1,
+          text: 'ник Neo',
+        },
+      })
+      .expect(200)
+      .expect('ok');
+
+    const replies = await waitForReplies(2);
+    expect(replies.map((reply) => reply.replyTo)).toEqual([5, 5]);
+  });
+
+  it('should process a repeated event once and apply the per-post limit', async () => {
+    await gateway.emitComment(comment(5, 7, 'ник Neo'));
+    await gateway.emitComment(comment(5, 7, 'ник Neo'));
+    await waitForReplies(2);
+
+    await gateway.emitComment(comment(6, 7, 'ник Trinity'));
+
+    const replies = await waitForReplies(3);
+    expect(replies).toHaveLength(3);
+    expect(replies[2]).toEqual({
+      replyTo: 6,
+      fromGroup: undefined,
+      message:
+        'Спасибо за интерес! По этому посту можно получить не больше 1 бандл(ов) на человека.',
+      files: [],
+    });
+  });
+
+  it('should explain characters the fonts cannot draw', async () => {
+    await gateway.emitComment(comment(5, 7, 'ник Neo 😀'));
+
+    expect(await waitForReplies(1)).toEqual([
+      {
+        replyTo: 5,
+        fromGroup: undefined,
+        message: expect.stringContaining('😀') as string,
+        files: [],
+      },
+    ]);
+  });
 });
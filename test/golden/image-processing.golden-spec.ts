@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as sharp from 'sharp';
+import { ImageProcessingService } from './../../src/image-processing/image-processing.service';
+import { OUTPUT_PRESETS } from './../../src/campaigns/output-presets';
+import { createCampaign } from './../../src/campaigns/campaign.fixture';
+import { BundleOutput } from './../../src/types/campaign.type';
+import { comparePixels, decodeRaw } from './pixel-diff';
+
+/**
+ * Эталонные картинки бандла для набора ников. Правки шаблонов, размеров
+ * шрифта и положения текста проверяются здесь, а не на глаз.
+ *
+ *   npm run test:golden          сравнить с эталонами
+ *   npm run test:golden:update   перерисовать эталоны после намеренной правки
+ *
+ * При расхождении рядом с эталонами появляется __diff__/{случай}/ с тем, что
+ * нарисовалось сейчас, и картой отличий. Все сравнивается в исходном размере:
+ * в уменьшенной копии сдвиг текста на пару пикселей не виден. Чтобы не
+ * раздувать репозиторий, для каждого ника хранится только область ника
+ * в шаблонах, а готовые файлы для площадок - целиком для одного ника.
+ */
+
+const GOLDEN_DIR = path.join(__dirname, 'references');
+const DIFF_DIR = path.join(__dirname, '__diff__');
+const UPDATE = process.env.GOLDEN_UPDATE === '1';
+// Области ника в шаблонах default.json (textBox с запасом в 32 пикселя под выносные
+// элементы). Заданы здесь, а не берутся из шаблона, чтобы сдвиг textBox был виден;
+// при намеренном переносе textBox поправьте их вместе с эталонами
+const TEXT_REGIONS: Record<string, sharp.Region> = {
+  cover_vk: { left: 768, top: 265, width: 1140, height: 234 },
+  cover_x: { left: 528, top: 308, width: 1328, height: 232 },
+  avatar: { left: 88, top: 368, width: 904, height: 304 },
+};
+// Насколько должен отличаться пиксель, чтобы считаться другим
+const PIXEL_THRESHOLD = Number(process.env.GOLDEN_PIXEL_THRESHOLD || 0.1);
+// Доля отличающихся пикселей, которая еще считается совпадением
+const MAX_DIFF_RATIO = Number(process.env.GOLDEN_MAX_DIFF_RATIO || 0.001);
+// JPEG-артефакты вокруг букв зависят от версии libjpeg, для этих файлов допуск шире
+const MAX_DIFF_RATIOS: Record<string, number> = {
+  telegram_avatar: MAX_DIFF_RATIO * 3,
+  story: MAX_DIFF_RATIO * 3,
+  youtube_banner: MAX_DIFF_RATIO * 3,
+};
+
+const CORPUS: [string, string][] = [
+  ['short', 'Neo'],
+  ['long', 'TheQuickBrownFoxJumps'],
+  ['cyrillic', 'Агент Смит'],
+  ['wide', 'WWWWMMMMWWWWMMMM'],
+  ['max-length', 'Ж'.repeat(32)],
+];
+
+const OUTPUTS: BundleOutput[] = Object.values(OUTPUT_PRESETS);
+
+const campaign = createCampaign({ id: 'golden', outputs: OUTPUTS });
+
+jest.setTimeout(120000);
+
+describe('ImageProcessingService (golden images)', () => {
+  const service = new ImageProcessingService();
+
+  beforeAll(async () => {
+    await fs.rm(DIFF_DIR, { recursive: true, force: true });
+  });
+
+  const expectReference = async (
+    actual: Buffer,
+    dir: string,
+    file: string,
+    maxDiffRatio = MAX_DIFF_RATIO,
+  ) => {
+    const reference = path.join(GOLDEN_DIR, dir, file);
+    const { name, ext } = path.parse(file);
+
+    if (UPDATE) {
+      await fs.mkdir(path.dirname(reference), { recursive: true });
+      await fs.writeFile(reference, actual);
+      return;
+    }
+
+    const expected = await fs.readFile(reference).catch(() => undefined);
+    if (!expected) {
+      throw new Error(
+        `Нет эталона ${path.relative(process.cwd(), reference)}, запустите npm run test:golden:update`,
+      );
+    }
+
+    const [expectedRaw, actualRaw] = await Promise.all([
+      decodeRaw(expected),
+      decodeRaw(actual),
+    ]);
+    const sameSize =
+      expectedRaw.width === actualRaw.width &&
+      expectedRaw.height === actualRaw.height;
+    const diff = sameSize
+      ? await comparePixels(expectedRaw, actualRaw, PIXEL_THRESHOLD)
+      : undefined;
+
+    if (!diff || diff.ratio > maxDiffRatio) {
+      const diffDir = path.join(DIFF_DIR, dir);
+      await fs.mkdir(diffDir, { recursive: true });
+      await fs.writeFile(path.join(diffDir, `${name}.actual${ext}`), actual);
+      if (diff) {
+        await fs.writeFile(path.join(diffDir, `${name}.diff.png`), diff.image);
+      }
+    }
+
+    expect({
+      width: actualRaw.width,
+      height: actualRaw.height,
+    }).toEqual({ width: expectedRaw.width, height: expectedRaw.height });
+    expect(diff?.ratio).toBeLessThanOrEqual(maxDiffRatio);
+  };
+
+  describe.each(CORPUS)('%s nickname', (name, nickname) => {
+    const images = new Map<string, Buffer>();
+
+    beforeAll(async () => {
+      const bundle = await service.createBundle(nickname, campaign);
+      for (const [layout, region] of Object.entries(TEXT_REGIONS)) {
+        images.set(
+          layout,
+          await sharp(bundle[layout]).extract(region).png().toBuffer(),
+        );
+      }
+    });
+
+    it.each(Object.keys(TEXT_REGIONS))(
+      'should match the reference text of %s',
+      async (layout) => {
+        await expectReference(images.get(layout)!, name, `${layout}.png`);
+      },
+    );
+  });
+
+  describe('outputs', () => {
+    const files = new Map<string, { data: Buffer; extension: string }>();
+
+    beforeAll(async () => {
+      const [, nickname] = CORPUS[0];
+      const bundle = await service.createBundle(nickname, campaign);
+      const outputs = await service.createOutputs(nickname, bundle, campaign);
+      OUTPUTS.forEach((output, index) => {
+        files.set(output.name, {
+          data: outputs[index].data,
+          extension: path.extname(outputs[index].fileName),
+        });
+      });
+    });
+
+    it.each(OUTPUTS.map((output) => output.name))(
+      'should match the reference %s',
+      async (output) => {
+        const { data, extension } = files.get(output)!;
+        await expectReference(
+          data,
+          'outputs',
+          `${output}${extension}`,
+          MAX_DIFF_RATIOS[output],
+        );
+      },
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import * as sharp from 'sharp';
+
+export interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface PixelDiff {
+  // Доля заметно отличающихся пикселей, от 0 до 1
+  ratio: number;
+  // Референс бледным фоном, отличия красным
+  image: Buffer;
+}
+
+// Максимальная разница в YIQ между черным и белым
+const MAX_DELTA = 35215;
+
+export const decodeRaw = async (image: Buffer): Promise<RawImage> => {
+  const { data, info } = await sharp(image)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+};
+
+/**
+ * Сравнивает картинки одного размера по яркости и цветности (YIQ), а не
+ * по байтам: разница в сглаживании шрифта между версиями libvips не
+ * считается отличием, сдвиг или другой размер текста - считается.
+ * threshold - от 0 до 1, чем меньше, тем строже.
+ */
+export const comparePixels = async (
+  expected: RawImage,
+  actual: RawImage,
+  threshold: number,
+): Promise<PixelDiff> => {
+  const maxDelta = MAX_DELTA * threshold * threshold;
+  const output = Buffer.alloc(expected.data.length);
+  let different = 0;
+
+  for (let i = 0; i < expected.data.length; i += 4) {
+    const delta = colorDelta(expected.data, actual.data, i);
+    if (delta > maxDelta) {
+      different++;
+      output.set([255, 0, 0, 255], i);
+    } else {
+      const gray = 255 - (255 - luma(expected.data, i)) * 0.1;
+      output.set([gray, gray, gray, 255], i);
+    }
+  }
+
+  return {
+    ratio: different / (expected.width * expected.height),
+    image: await sharp(output, {
+      raw: { width: expected.width, height: expected.height, channels: 4 },
+    })
+      .png()
+      .toBuffer(),
+  };
+};
+
+// Прозрачные пиксели сравниваются как наложенные на белый фон
+const blend = (value: number, alpha: number) =>
+  255 + ((value - 255) * alpha) / 255;
+
+const luma = (data: Buffer, i: number) => {
+  const alpha = data[i + 3];
+  return (
+    blend(data[i], alpha) * 0.29889531 +
+    blend(data[i + 1], alpha) * 0.58662247 +
+    blend(data[i + 2], alpha) * 0.11448223
+  );
+};
+
+const colorDelta = (a: Buffer, b: Buffer, i: number) => {
+  const [r1, g1, b1] = [0, 1, 2].map((c) => blend(a[i + c], a[i + 3]));
+  const [r2, g2, b2] = [0, 1, 2].map((c) => blend(b[i + c], b[i + 3]));
+  const [r, g, bl] = [r1 - r2, g1 - g2, b1 - b2];
+
+  const y = r * 0.29889531 + g * 0.58662247 + bl * 0.11448223;
+  const iq = r * 0.59597799 - g * 0.2741761 - bl * 0.32180189;
+  const q = r * 0.21147017 - g * 0.52261711 + bl * 0.31114694;
+  return 0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q;
+};
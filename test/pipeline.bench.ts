@@ -0,0 +1,218 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AppModule } from '../src/app.module';
+import { VkGateway } from '../src/vk/vk-gateway';
+import { FakeVkGateway } from '../src/vk/fake-vk.gateway';
+import { VkRequestScheduler } from '../src/vk/vk-request-scheduler';
+import { QueueService } from '../src/queue/queue.service';
+import { ImageProcessingService } from '../src/image-processing/image-processing.service';
+import { UnsupportedCharactersError } from '../src/image-processing/unsupported-characters.error';
+import { PendingBundle } from '../src/types/bundle.type';
+import { Campaign } from '../src/types/campaign.type';
+
+/**
+ * Время до первого ответа для пачки комментариев: от события до первого
+ * wall.createComment в ветке. Запросы к VK проходят через VkRequestScheduler
+ * с теми же лимитами, что и в проде, и ждут BENCH_LATENCY_MS, как сеть.
+ *
+ *   npm run bench
+ *   BENCH_MODE=sequential npm run bench
+ *   BENCH_COUNT=20 BENCH_LATENCY_MS=50 VK_USER_RPS=20 npm run bench
+ *
+ * BENCH_MODE=sequential - прежний путь для сравнения: одна задача за раз,
+ * шаблоны рисуются один за другим, загрузка начинается, только когда готов
+ * весь бандл, а запросы к VK идут строго друг за другом.
+ *
+ * BENCH_COUNT=20 VK_USER_RPS=20 VK_METHOD_RPS= на 1 CPU, первый ответ в среднем / вся пачка:
+ *   sequential  16.5 с / 32 с
+ *   pipeline     9.1 с / 17 с
+ * Если пачка не обработана за BENCH_TIMEOUT_MS, прогон завершается с ошибкой.
+ */
+
+const COUNT = Number(process.env.BENCH_COUNT || 100);
+const LATENCY_MS = Number(process.env.BENCH_LATENCY_MS || 100);
+const MODE = process.env.BENCH_MODE || 'pipeline';
+const TIMEOUT_MS = Number(process.env.BENCH_TIMEOUT_MS || 600000);
+
+class LatencyVkGateway extends FakeVkGateway {
+  // Последний запрос к VK, если запросы идут по одному
+  #previous: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly scheduler: VkRequestScheduler,
+    private readonly sequential: boolean,
+  ) {
+    super();
+  }
+
+  // Все вызовы считаем пользовательскими: у этого токена самый строгий лимит
+  protected record(method: string, params: object): Promise<void> {
+    const call = () =>
+      this.scheduler.run('user', method, async () => {
+        await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+        return super.record(method, params);
+      });
+    if (!this.sequential) {
+      return call();
+    }
+
+    const result = this.#previous.then(call, call);
+    this.#previous = result;
+    return result;
+  }
+}
+
+class SequentialImageProcessingService extends ImageProcessingService {
+  async startBundle(
+    nickname: string,
+    campaign: Campaign,
+  ): Promise<PendingBundle> {
+    const layouts = await this.getLayouts(campaign);
+    const unsupported = await this.findUnsupportedCharacters(
+      nickname,
+      campaign,
+    );
+    if (unsupported.length) {
+      throw new UnsupportedCharactersError(unsupported);
+    }
+
+    const bundle: PendingBundle = {};
+    for (const layout of layouts) {
+      bundle[layout.name] = Promise.resolve(
+        await this.renderLayout(nickname, layout, campaign),
+      );
+    }
+    return bundle;
+  }
+}
+
+// Ждет условия не дольше общего срока прогона
+const waitUntil = async (
+  condition: () => boolean | Promise<boolean>,
+  deadline: number,
+  what: string,
+): Promise<void> => {
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Не дождались: ${what} за ${TIMEOUT_MS} мс`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor((sorted.length * p) / 100))];
+
+async function main() {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bench-'));
+  process.env.DATA_DIR = tmpDir;
+  process.env.CAMPAIGNS_PATH = path.join(tmpDir, 'campaigns.json');
+  process.env.TARGET_POST_ID = '10';
+  process.env.GROUP_ID = '-1';
+  process.env.VK_TRANSPORT = 'callback';
+  process.env.UPLOAD_CACHE_MAX_ENTRIES = '0';
+  if (MODE === 'sequential') {
+    process.env.QUEUE_CONCURRENCY = '1';
+  }
+
+  // Логи задач заглушаем только на время прогона
+  const { log, warn } = console;
+  console.log = () => undefined;
+  console.warn = () => undefined;
+
+  const scheduler = new VkRequestScheduler(new ConfigService(process.env));
+  const gateway = new LatencyVkGateway(scheduler, MODE === 'sequential');
+  let builder = Test.createTestingModule({ imports: [AppModule] })
+    .overrideProvider(VkGateway)
+    .useValue(gateway);
+  if (MODE === 'sequential') {
+    builder = builder
+      .overrideProvider(ImageProcessingService)
+      .useClass(SequentialImageProcessingService);
+  }
+  const moduleFixture = await builder.compile();
+  const app = moduleFixture.createNestApplication({ logger: false });
+
+  try {
+    await app.init();
+
+    const deadline = Date.now() + TIMEOUT_MS;
+    const startedAt = new Map<number, number>();
+    const firstReplyMs = new Map<number, number>();
+    const collectReplies = () => {
+      for (const comment of gateway.comments) {
+        const commentId = comment.replyTo ?? 0;
+        const started = startedAt.get(commentId);
+        if (!firstReplyMs.has(commentId) && started !== undefined) {
+          firstReplyMs.set(commentId, Date.now() - started);
+        }
+      }
+      return (
+        firstReplyMs.size === COUNT && gateway.comments.length === COUNT * 2
+      );
+    };
+
+    const batchStartedAt = Date.now();
+    const emitted = (async () => {
+      for (let i = 1; i <= COUNT; i++) {
+        startedAt.set(i, Date.now());
+        await gateway.emitComment({
+          ownerId: -1,
+          postId: 10,
+          commentId: i,
+          fromId: 1000 + i,
+          text: `ник Player${i}`,
+        });
+      }
+    })();
+    await waitUntil(collectReplies, deadline, 'ответы на все комментарии');
+    await emitted;
+    const batchMs = Date.now() - batchStartedAt;
+
+    // После ответов задачи еще сохраняют кэш и реестр, закрываемся после них
+    const queue = moduleFixture.get(QueueService);
+    await waitUntil(
+      async () => !(await queue.find((job) => job.status !== 'done')).length,
+      deadline,
+      'завершение задач очереди',
+    );
+
+    const sorted = [...firstReplyMs.values()].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length;
+    log(
+      JSON.stringify(
+        {
+          mode: MODE,
+          count: COUNT,
+          latencyMs: LATENCY_MS,
+          userRps: scheduler.getRateLimit('user'),
+          firstReplyMs: {
+            min: sorted[0],
+            mean: Math.round(mean),
+            p50: percentile(sorted, 50),
+            p95: percentile(sorted, 95),
+            max: sorted[sorted.length - 1],
+          },
+          batchMs,
+          throttledMs: scheduler.getMetrics().throttledMs,
+        },
+        null,
+        2,
+      ),
+    );
+  } finally {
+    await app.close();
+    console.log = log;
+    console.warn = warn;
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+// При ошибке задачи и события могли остаться в работе, не ждем их
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});